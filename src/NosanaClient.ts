@@ -96,11 +96,15 @@ export function createNosanaClient(
     }
   );
 
+  // Initialize Nosana Modules
+  const ipfs = createIpfsClient(config.ipfs);
+
   // Create program dependencies
   const programDeps: ProgramDeps = {
     logger,
     solana,
     nos,
+    ipfs,
     getWallet,
   };
 
@@ -109,9 +113,6 @@ export function createNosanaClient(
   const stake = createStakeProgram(programDeps, config.programs);
   const merkleDistributor = createMerkleDistributorProgram(programDeps, config.programs);
 
-  // Initialize Nosana Modules
-  const ipfs = createIpfsClient(config.ipfs);
-
   const createReactiveNosanaModules = (): {
     authorization: NosanaAuthorization;
     api: NosanaClient['api'];
@@ -24,12 +24,76 @@ export const SolanaCommitment = {
 
 export type SolanaCommitment = (typeof SolanaCommitment)[keyof typeof SolanaCommitment];
 
+export const MonitorTransport = {
+  WEBSOCKET: 'websocket',
+  POLLING: 'polling',
+  AUTO: 'auto',
+} as const;
+
+export type MonitorTransport = (typeof MonitorTransport)[keyof typeof MonitorTransport];
+
+export interface MonitorTransportConfig {
+  transport?: MonitorTransport; // 'auto' (default) uses WebSocket and falls back to polling
+  pollIntervalMs?: number; // Interval between HTTP polls (default: 5000)
+  fallbackAfterFailures?: number; // Consecutive WebSocket failures before 'auto' switches to polling (default: 3)
+}
+
+/**
+ * Exponential backoff used to re-establish a dropped subscription
+ * @group @nosana/kit
+ */
+export type MonitorReconnectOptions = {
+  /**
+   * Delay before the first reconnect attempt (default: 1000)
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound of the delay, which doubles on every failed attempt (default: 30000)
+   */
+  maxDelayMs?: number;
+  /**
+   * Fraction of the delay that is randomized, between 0 and 1 (default: 0.2)
+   */
+  jitter?: number;
+  /**
+   * Consecutive failed attempts before the event stream throws (default: Infinity)
+   */
+  maxAttempts?: number;
+};
+
+/**
+ * Connection state constants of a monitor subscription
+ * @group @nosana/kit
+ */
+export const MonitorConnectionState = {
+  CONNECTED: 'connected',
+  DISCONNECTED: 'disconnected',
+  RECONNECTING: 'reconnecting',
+} as const;
+
+export type MonitorConnectionState =
+  (typeof MonitorConnectionState)[keyof typeof MonitorConnectionState];
+
+/**
+ * Connection state change of a monitor subscription
+ * @group @nosana/kit
+ */
+export type MonitorConnectionEvent =
+  | {
+      state: typeof MonitorConnectionState.CONNECTED;
+      attempt: number;
+      transport: Exclude<MonitorTransport, 'auto'>;
+    }
+  | { state: typeof MonitorConnectionState.DISCONNECTED; attempt: number; error?: unknown }
+  | { state: typeof MonitorConnectionState.RECONNECTING; attempt: number; delayMs: number };
+
 export interface SolanaConfig {
   cluster: SolanaClusterMoniker;
   rpcEndpoint: string;
   wsEndpoint?: string; // Optional WebSocket endpoint, if different from HTTP
   commitment?: SolanaCommitment;
   feePayer?: TransactionSigner; // Optional fee payer for transactions
+  monitor?: MonitorTransportConfig; // How program monitors receive account updates
 }
 
 export interface ProgramConfig {
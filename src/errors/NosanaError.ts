@@ -20,6 +20,8 @@ export const ErrorCodes = {
   FILE_ERROR: 'FILE_ERROR',
   WALLET_CONVERSION_ERROR: 'WALLET_CONVERSION_ERROR',
   AUTH_ERROR: 'AUTH_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -24,12 +24,28 @@ export type { Wallet, ProgramDeps } from './types.js';
 /**
  * @group @nosana/kit
  */
-export { createJobsProgram, JobState, MarketQueueType } from './services/programs/jobs/index.js';
+export {
+  createJobsProgram,
+  JobState,
+  MarketQueueType,
+  MonitorConnectionState,
+} from './services/programs/jobs/index.js';
 
 /**
  * @group @nosana/kit
  */
-export type { JobsProgram, Job, Market, Run } from './services/programs/jobs/index.js';
+export type {
+  JobsProgram,
+  Job,
+  Market,
+  Run,
+  JobFilters,
+  JobFilterRange,
+  JobQueryOptions,
+  DecodedMarketQueue,
+  QueuedNode,
+  QueuePosition,
+} from './services/programs/jobs/index.js';
 
 /**
  * @group @nosana/kit
@@ -40,6 +56,38 @@ export type {
   PostInstruction,
 } from './services/programs/jobs/instructions/post.js';
 
+/**
+ * @group @nosana/kit
+ */
+export type {
+  EstimateCost,
+  EstimateCostParams,
+  JobCostEstimate,
+} from './services/programs/jobs/estimateCost.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  PostAndWait,
+  PostAndWaitParams,
+  PostAndWaitOptions,
+  PostAndWaitResult,
+} from './services/programs/jobs/postAndWait.js';
+
+/**
+ * @group @nosana/kit
+ */
+export { JobTransitionType } from './services/programs/jobs/watchTransitions.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  WatchTransitions,
+  JobTransitionEvent,
+} from './services/programs/jobs/watchTransitions.js';
+
 /**
  * @group @nosana/kit
  */
@@ -58,24 +106,204 @@ export type {
   DelistInstruction,
 } from './services/programs/jobs/instructions/delist.js';
 
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Work,
+  WorkParams,
+  WorkInstruction,
+} from './services/programs/jobs/instructions/work.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Quit,
+  QuitParams,
+  QuitInstruction,
+} from './services/programs/jobs/instructions/quit.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Finish,
+  FinishParams,
+  FinishInstruction,
+} from './services/programs/jobs/instructions/finish.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Claim,
+  ClaimParams,
+  ClaimInstruction,
+} from './services/programs/jobs/instructions/claim.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Assign,
+  AssignParams,
+  AssignInstruction,
+} from './services/programs/jobs/instructions/assign.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Recover,
+  RecoverParams,
+  RecoverInstruction,
+} from './services/programs/jobs/instructions/recover.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Stop,
+  StopParams,
+  StopInstruction,
+} from './services/programs/jobs/instructions/stop.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Complete,
+  CompleteParams,
+  CompleteInstruction,
+} from './services/programs/jobs/instructions/complete.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  OpenMarket,
+  OpenMarketParams,
+  OpenMarketInstruction,
+} from './services/programs/jobs/instructions/openMarket.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  UpdateMarket,
+  UpdateMarketParams,
+  UpdateMarketInstruction,
+} from './services/programs/jobs/instructions/updateMarket.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  CloseMarket,
+  CloseMarketAdmin,
+  CloseMarketParams,
+  CloseMarketInstruction,
+  CloseMarketAdminInstruction,
+} from './services/programs/jobs/instructions/closeMarket.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  Clean,
+  CleanAdmin,
+  CleanParams,
+  CleanInstruction,
+  CleanAdminInstruction,
+} from './services/programs/jobs/instructions/clean.js';
+
 /**
  * @group @nosana/kit
  */
 export type {
   SimpleMonitorEvent,
   MonitorEvent,
+  MonitorFilters,
+  MonitorOptions,
+  MonitorReconnectOptions,
+  MonitorConnectionEvent,
   MonitorEventType,
 } from './services/programs/jobs/monitor/types.js';
 
 /**
  * @group @nosana/kit
  */
-export { createStakeProgram } from './services/programs/stake/index.js';
+export type { Watch, WatchOptions } from './services/programs/jobs/monitor/watch.js';
+
+/**
+ * @group @nosana/kit
+ */
+export { createStakeProgram, StakeEventType } from './services/programs/stake/index.js';
 
 /**
  * @group @nosana/kit
  */
-export type { StakeProgram, Stake } from './services/programs/stake/index.js';
+export type {
+  StakeProgram,
+  Stake,
+  StakeSettings,
+  StakeEvent,
+  StakeMonitor,
+  StakeMonitorFilters,
+} from './services/programs/stake/index.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  StakeDuration,
+  CreateStake,
+  StakeParams,
+  StakeInstruction,
+  Unstake,
+  UnstakeInstruction,
+  Restake,
+  RestakeInstruction,
+  Topup,
+  TopupParams,
+  TopupInstruction,
+  ExtendStake,
+  ExtendStakeParams,
+  ExtendStakeInstruction,
+  Withdraw,
+  WithdrawInstruction,
+  CloseStake,
+  CloseStakeInstruction,
+  Slash,
+  SlashParams,
+  SlashInstruction,
+  UpdateStakeSettings,
+  UpdateStakeSettingsParams,
+  UpdateStakeSettingsInstruction,
+} from './services/programs/stake/instructions/index.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  ComputeXnos,
+  ProjectXnos,
+  UnlockTime,
+  XnosProjection,
+  XnosProjectionParams,
+} from './services/programs/stake/xnos.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  GetStakeStats,
+  StakeStats,
+  StakeStatsOptions,
+  StakeDurationBucket,
+  TopStaker,
+} from './services/programs/stake/stats.js';
 
 /**
  * @group @nosana/kit
@@ -99,6 +327,72 @@ export type {
  */
 export { ClaimStatusNotFoundError } from './services/programs/merkleDistributor/index.js';
 
+/**
+ * @group @nosana/kit
+ */
+export type {
+  ClaimLocked,
+  ClaimLockedParams,
+  ClaimLockedInstruction,
+  CloseClaimStatus,
+  CloseClaimStatusParams,
+  CloseClaimStatusInstruction,
+  NewDistributor,
+  NewDistributorParams,
+  NewDistributorInstructions,
+  SetAdmin,
+  SetAdminParams,
+  SetAdminInstruction,
+  SetClawbackReceiver,
+  SetClawbackReceiverParams,
+  SetClawbackReceiverInstruction,
+  SetEnableSlot,
+  SetEnableSlotParams,
+  SetEnableSlotInstruction,
+  CloseDistributor,
+  CloseDistributorParams,
+  CloseDistributorInstruction,
+} from './services/programs/merkleDistributor/instructions/index.js';
+
+/**
+ * @group @nosana/kit
+ */
+export {
+  buildMerkleTree,
+  getMerkleLeaf,
+  verifyMerkleProof,
+  readRecipientsCsv,
+  readRecipientsJson,
+  writeProofBundle,
+  readProofBundle,
+  getVestedAmount,
+  getWithdrawableLockedAmount,
+  getVestingSchedule,
+  getDistributorStats,
+} from './services/programs/merkleDistributor/index.js';
+
+/**
+ * @group @nosana/kit
+ */
+export type {
+  BuildMerkleTree,
+  MerkleClaim,
+  MerkleProofParams,
+  MerkleRecipient,
+  MerkleTree,
+  VerifyMerkleProof,
+  ReadRecipients,
+  MerkleProofBundle,
+  MerkleProofBundleJson,
+  WriteProofBundle,
+  ReadProofBundle,
+  GetMerkleDistributorStats,
+  MerkleDistributorStats,
+  GetVestingSchedule,
+  VestingScheduleEntry,
+  VestingScheduleOptions,
+} from './services/programs/merkleDistributor/index.js';
+
 // ============================================================================
 // @nosana/kit - Services
 // ============================================================================
@@ -142,6 +436,8 @@ export type { SolanaService, SolanaServiceDeps } from './services/solana/SolanaS
 export {
   DEFAULT_CONFIGS,
   getNosanaConfig,
+  MonitorTransport,
+  type MonitorTransportConfig,
   type ClientConfig,
   type PartialClientConfig,
   type SolanaConfig,
@@ -174,6 +470,15 @@ export { Logger, type LogLevel, type LoggerOptions } from './logger/Logger.js';
  */
 export type { ConvertTypesForDb } from './utils/convertBigIntToNumber.js';
 
+/**
+ * @group @nosana/kit
+ */
+export {
+  NOS_DECIMALS,
+  convertNosToBaseUnits,
+  convertBaseUnitsToNos,
+} from './utils/convertNosToBaseUnits.js';
+
 /**
  * @group @nosana/kit
  */
@@ -1,14 +1,26 @@
 import bs58 from 'bs58';
 import { solBytesArrayToIpfsHash } from '@nosana/ipfs';
-import { parseBase64RpcAccount } from '@solana/kit';
+import {
+  getAddressDecoder,
+  getBase64Encoder,
+  getU64Encoder,
+  parseBase64RpcAccount,
+} from '@solana/kit';
 import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
-import { convertBigIntToNumber, type ConvertTypesForDb } from '../../../utils/index.js';
+import {
+  convertBigIntToNumber,
+  convertNosToBaseUnits,
+  createMemcmpFilter,
+  getAccountFieldOffsets,
+  type ConvertTypesForDb,
+} from '../../../utils/index.js';
 
 import type {
   Address,
   Account,
   Base58EncodedBytes,
   GetProgramAccountsMemcmpFilter,
+  MaybeAccount,
   ReadonlyUint8Array,
 } from '@solana/kit';
 import type { ProgramDeps, Wallet } from '../../../types.js';
@@ -21,8 +33,18 @@ import type { InstructionsHelperParams } from './instructions/types.js';
 
 import * as Instructions from './instructions/index.js';
 import * as programClient from '../../../generated_clients/jobs/index.js';
-import { createMonitorFunctions } from './monitor/index.js';
-import type { SimpleMonitorEvent, MonitorEvent } from './monitor/index.js';
+import * as stakingClient from '../../../generated_clients/staking/index.js';
+import { transformStakeAccount, type Stake } from '../stake/index.js';
+import { createMonitorFunctions, watch, type Watch } from './monitor/index.js';
+import { postAndWait, type PostAndWait } from './postAndWait.js';
+import { watchTransitions, type WatchTransitions } from './watchTransitions.js';
+import { estimateCost, type EstimateCost } from './estimateCost.js';
+import type {
+  SimpleMonitorEvent,
+  MonitorEvent,
+  MonitorFilters,
+  MonitorOptions,
+} from './monitor/index.js';
 
 export enum JobState {
   QUEUED = 0,
@@ -48,9 +70,107 @@ export type Market = Omit<ConvertTypesForDb<programClient.MarketAccountArgs>, 'q
 
 export type Run = ConvertTypesForDb<programClient.RunAccountArgs> & { address: Address };
 
+/**
+ * Filters for querying job accounts
+ * @group @nosana/kit
+ */
+export type JobFilters = {
+  state?: JobState;
+  market?: Address;
+  node?: Address;
+  project?: Address;
+  payer?: Address;
+  /**
+   * Start time window in unix seconds
+   */
+  timeStart?: JobFilterRange;
+  /**
+   * End time window in unix seconds
+   */
+  timeEnd?: JobFilterRange;
+  /**
+   * Price range in NOS per second, like the market job price
+   */
+  price?: JobFilterRange;
+  /**
+   * Only jobs with (true) or without (false) a posted result
+   */
+  hasResult?: boolean;
+};
+
+/**
+ * Inclusive range for numeric job filters, either bound may be omitted
+ * @group @nosana/kit
+ */
+export type JobFilterRange = {
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Options for paginated job queries
+ * @group @nosana/kit
+ */
+export type JobQueryOptions = {
+  /**
+   * Number of job accounts hydrated per getMultipleAccounts request (1-100, default: 100)
+   */
+  pageSize?: number;
+  /**
+   * Check for run accounts to determine if queued jobs are running (default: false)
+   */
+  checkRuns?: boolean;
+};
+
+/**
+ * A node waiting in a market node queue, with its stake account if it has one
+ * @group @nosana/kit
+ */
+export type QueuedNode = {
+  node: Address;
+  stake: Stake | null;
+};
+
+/**
+ * Decoded queue of a market: queued jobs for a job queue, waiting nodes for a node queue
+ * @group @nosana/kit
+ */
+export type DecodedMarketQueue =
+  | { market: Address; queueType: MarketQueueType.JOB_QUEUE; jobs: Job[] }
+  | { market: Address; queueType: MarketQueueType.NODE_QUEUE; nodes: QueuedNode[] };
+
+/**
+ * Position of a job or node in a market queue
+ * @group @nosana/kit
+ */
+export type QueuePosition = {
+  queueType: MarketQueueType;
+  /**
+   * Zero-based index in the queue, which is also the number of entries ahead.
+   * Null when the job or node is not in the queue.
+   */
+  position: number | null;
+  /**
+   * Number of entries in the queue
+   */
+  length: number;
+};
+
+const MAX_QUERY_PAGE_SIZE = 100;
+// Above this many queued jobs, runs are found through a run index instead of one memcmp per job
+const MAX_MEMCMP_RUN_LOOKUPS = 5;
+
 // Re-export monitor types for convenience
-export { MonitorEventType } from './monitor/index.js';
-export type { SimpleMonitorEvent, MonitorEvent } from './monitor/index.js';
+export { MonitorEventType, MonitorConnectionState } from './monitor/index.js';
+export type {
+  SimpleMonitorEvent,
+  MonitorEvent,
+  MonitorFilters,
+  MonitorOptions,
+  MonitorReconnectOptions,
+  MonitorConnectionEvent,
+  WatchOptions,
+} from './monitor/index.js';
 
 /**
  * Jobs program interface
@@ -80,15 +200,21 @@ export interface JobsProgram {
   /**
    * Fetch all job accounts
    */
-  all(
-    filters?: {
-      state?: JobState;
-      market?: Address;
-      node?: Address;
-      project?: Address;
-    },
-    checkRuns?: boolean
-  ): Promise<Job[]>;
+  all(filters?: JobFilters, checkRuns?: boolean): Promise<Job[]>;
+
+  /**
+   * Query job accounts page by page.
+   * Matching job addresses are fetched first without account data, then hydrated
+   * in batches with getMultipleAccounts and yielded one by one.
+   *
+   * @example
+   * ```typescript
+   * for await (const job of jobsProgram.query({ market }, { pageSize: 50 })) {
+   *   await db.save(job);
+   * }
+   * ```
+   */
+  query(filters?: JobFilters, options?: JobQueryOptions): AsyncIterable<Job>;
 
   /**
    * Fetch all run accounts
@@ -100,11 +226,51 @@ export interface JobsProgram {
    */
   markets(): Promise<Market[]>;
 
+  /**
+   * Fetch the decoded queue of a market.
+   * Returns the queued jobs for a job queue, or the waiting nodes and their stake for a node queue.
+   */
+  queue(market: Address): Promise<DecodedMarketQueue>;
+
+  /**
+   * Find the position of a job or node in the queue of a market
+   *
+   * @example
+   * ```typescript
+   * const { queueType, position, length } = await jobsProgram.queuePosition(market, job);
+   * if (queueType === MarketQueueType.JOB_QUEUE && position !== null) {
+   *   console.log(`${position} jobs ahead`);
+   * } else if (queueType === MarketQueueType.NODE_QUEUE) {
+   *   console.log(`${length} idle nodes waiting`);
+   * }
+   * ```
+   */
+  queuePosition(market: Address, jobOrNode: Address): Promise<QueuePosition>;
+
+  /**
+   * Estimate the NOS and SOL cost of posting a job to a market
+   */
+  estimateCost: EstimateCost;
+
   /**
    * Post a new job to the marketplace
    */
   post: Instructions.Post;
 
+  /**
+   * Pin a job definition to IPFS, post it to the marketplace and wait until the job
+   * is completed or stopped. Resolves with the final job and its parsed result.
+   *
+   * @example
+   * ```typescript
+   * const { job, result } = await jobsProgram.postAndWait(
+   *   { market, timeout: 3600, jobDefinition },
+   *   { timeoutMs: 60 * 60 * 1000, onStateChange: (job) => console.log(job.state) }
+   * );
+   * ```
+   */
+  postAndWait: PostAndWait;
+
   /**
    *  Extend an existing job's timeout
    */
@@ -117,10 +283,69 @@ export interface JobsProgram {
    * Stop a running job
    */
   end(params: { job: Address }): Promise<ReturnType<typeof programClient.getEndInstruction>>;
+  /**
+   * Enter a market queue as a node, or claim the first queued job
+   */
+  work: Instructions.Work;
+  /**
+   * Quit a job run as a node
+   */
+  quit: Instructions.Quit;
+  /**
+   * Finish a running job as a node and post the result
+   */
+  finish: Instructions.Finish;
+  /**
+   * Claim a queued job as a node
+   */
+  claim: Instructions.Claim;
+  /**
+   * Post a job and assign it directly to a node
+   */
+  assign: Instructions.Assign;
+  /**
+   * Recover the deposit of a stopped job as the payer
+   */
+  recover: Instructions.Recover;
+  /**
+   * Remove a node from a market's node queue
+   */
+  stop: Instructions.Stop;
+  /**
+   * Complete a stopped job with a result
+   */
+  complete: Instructions.Complete;
+  /**
+   * Open a new market, the signing wallet becomes the market authority
+   */
+  openMarket: Instructions.OpenMarket;
+  /**
+   * Update the settings of a market
+   */
+  updateMarket: Instructions.UpdateMarket;
+  /**
+   * Close a market and its vault as the market authority
+   */
+  closeMarket: Instructions.CloseMarket;
+  /**
+   * Close a market and its vault as the program admin
+   */
+  closeMarketAdmin: Instructions.CloseMarketAdmin;
+  /**
+   * Close a completed job account and refund its rent to the payer
+   */
+  clean: Instructions.Clean;
+  /**
+   * Close a job account as the program admin and refund its rent to the payer
+   */
+  cleanAdmin: Instructions.CleanAdmin;
 
   /**
    * Monitor program account updates using async iterators.
    * Automatically merges run account data into job account updates.
+   * Optional filters narrow the subscription, e.g. to the jobs of a single market.
+   * Dropped connections are re-established with exponential backoff, and account changes
+   * missed while disconnected are emitted after reconnecting.
    * Returns a tuple of [eventStream, stopFunction].
    *
    * @example
@@ -135,11 +360,15 @@ export interface JobsProgram {
    * }
    * ```
    */
-  monitor(): Promise<[AsyncIterable<SimpleMonitorEvent>, () => void]>;
+  monitor(
+    filters?: MonitorFilters,
+    options?: MonitorOptions
+  ): Promise<[AsyncIterable<SimpleMonitorEvent>, () => void]>;
 
   /**
    * Monitor program account updates with detailed events for each account type.
    * Provides separate events for job, market, and run accounts.
+   * Accepts the same filters and options as monitor().
    * Returns a tuple of [eventStream, stopFunction].
    *
    * @example
@@ -160,7 +389,41 @@ export interface JobsProgram {
    * }
    * ```
    */
-  monitorDetailed(): Promise<[AsyncIterable<MonitorEvent>, () => void]>;
+  monitorDetailed(
+    filters?: MonitorFilters,
+    options?: MonitorOptions
+  ): Promise<[AsyncIterable<MonitorEvent>, () => void]>;
+
+  /**
+   * Watch job state transitions instead of raw account snapshots.
+   * Keeps the previous snapshot of every job and emits typed events with before and after values.
+   * Accepts the same filters and options as monitor().
+   *
+   * @example
+   * ```typescript
+   * const [transitions, stop] = await jobsProgram.watchTransitions({ market });
+   * for await (const transition of transitions) {
+   *   if (transition.type === JobTransitionType.COMPLETED) {
+   *     console.log('Job completed:', transition.job, transition.after.ipfsResult);
+   *   }
+   * }
+   * ```
+   */
+  watchTransitions: WatchTransitions;
+
+  /**
+   * Watch a single job until it is completed or stopped.
+   * Yields the current job, then every update of the job account or its run account.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const job of jobsProgram.watch(jobAddress, { signal: controller.signal })) {
+   *   console.log('Job state:', job.state);
+   * }
+   * ```
+   */
+  watch: Watch;
 }
 
 /**
@@ -191,9 +454,10 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
   // Cache for static accounts (memoization)
   const staticAccountsCache: { value?: StaticAccounts; promise?: Promise<StaticAccounts> } = {};
 
-  /**
-   * Transform job account to include address and convert types
-   */
+  // Field offsets used in getProgramAccounts filters
+  const jobAccountOffsets = getAccountFieldOffsets(client.getJobAccountDecoder());
+  const runAccountOffsets = getAccountFieldOffsets(client.getRunAccountDecoder());
+
   /**
    * Convert Solana bytes array to IPFS hash, returning null for empty/invalid hashes
    */
@@ -206,6 +470,9 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
     return result;
   }
 
+  /**
+   * Transform job account to include address and convert types
+   */
   function transformJobAccount(jobAccount: Account<programClient.JobAccount>): Job {
     const { discriminator: _, ...jobAccountData } = jobAccount.data;
 
@@ -244,6 +511,75 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
     };
   }
 
+  /**
+   * Find the run accounts of the given jobs without downloading every run account.
+   * A few jobs are looked up with a memcmp filter each. For more jobs, an index of
+   * run addresses by job is fetched with a data slice holding only the job field,
+   * and only the matching run accounts are hydrated.
+   *
+   * The index is a getProgramAccounts scan over every run account of the program, so its
+   * cost grows with the number of running jobs on the network rather than with the number
+   * of jobs asked for. It transfers 32 bytes per run account, but RPC providers still bill
+   * and rate limit it as a full program scan.
+   */
+  async function findRunsByJob(
+    jobAddresses: Address[],
+    getRuns: JobsProgram['runs']
+  ): Promise<Map<Address, Run>> {
+    const runsByJob = new Map<Address, Run>();
+    if (jobAddresses.length === 0) {
+      return runsByJob;
+    }
+
+    if (jobAddresses.length <= MAX_MEMCMP_RUN_LOOKUPS) {
+      const runs = await Promise.all(jobAddresses.map((job) => getRuns({ job })));
+      runs.forEach(([run]) => run && runsByJob.set(run.job, run));
+      return runsByJob;
+    }
+
+    const wanted = new Set(jobAddresses);
+    const runIndex = await deps.solana.rpc
+      .getProgramAccounts(programId, {
+        encoding: 'base64',
+        dataSlice: { offset: runAccountOffsets.job, length: 32 },
+        filters: [createMemcmpFilter(0, client.RUN_ACCOUNT_DISCRIMINATOR)],
+      })
+      .send();
+    const runAddresses = runIndex
+      .filter((result: (typeof runIndex)[0]) =>
+        wanted.has(getAddressDecoder().decode(getBase64Encoder().encode(result.account.data[0])))
+      )
+      .map((result: (typeof runIndex)[0]) => result.pubkey);
+
+    if (runAddresses.length > 0) {
+      const runAccounts = await client.fetchAllMaybeRunAccount(deps.solana.rpc, runAddresses);
+      runAccounts.forEach((runAccount) => {
+        if (runAccount.exists) {
+          const run = transformRunAccount(runAccount);
+          runsByJob.set(run.job, run);
+        }
+      });
+    }
+    return runsByJob;
+  }
+
+  /**
+   * Merge the run accounts of queued jobs into the jobs, in place
+   */
+  async function mergeRunsIntoJobs(jobs: Job[], getRuns: JobsProgram['runs']): Promise<void> {
+    const queuedJobs = jobs.filter((job) => job.state === JobState.QUEUED);
+    const runsByJob = await findRunsByJob(
+      queuedJobs.map((job) => job.address),
+      getRuns
+    );
+    queuedJobs.forEach((job) => {
+      const run = runsByJob.get(job.address);
+      if (run) {
+        Object.assign(job, mergeRunIntoJob(job, run));
+      }
+    });
+  }
+
   /**
    * Transform market account to include address and convert types
    */
@@ -258,6 +594,79 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
     };
   }
 
+  /**
+   * Build getProgramAccounts filters for job accounts.
+   * Filters that can't be expressed as memcmp are applied by matchesJobFilters.
+   */
+  function getJobFilters(filters?: JobFilters): GetProgramAccountsMemcmpFilter[] {
+    const gpaFilters = [createMemcmpFilter(0, client.JOB_ACCOUNT_DISCRIMINATOR)];
+    if (filters) {
+      if (typeof filters.state === 'number') {
+        gpaFilters.push(
+          createMemcmpFilter(jobAccountOffsets.state, new Uint8Array([filters.state]))
+        );
+      }
+      if (filters.project) {
+        gpaFilters.push(createMemcmpFilter(jobAccountOffsets.project, filters.project));
+      }
+      if (filters.node) {
+        gpaFilters.push(createMemcmpFilter(jobAccountOffsets.node, filters.node));
+      }
+      if (filters.market) {
+        gpaFilters.push(createMemcmpFilter(jobAccountOffsets.market, filters.market));
+      }
+      if (filters.payer) {
+        gpaFilters.push(createMemcmpFilter(jobAccountOffsets.payer, filters.payer));
+      }
+      if (
+        filters.price &&
+        filters.price.min !== undefined &&
+        filters.price.min === filters.price.max
+      ) {
+        gpaFilters.push(
+          createMemcmpFilter(
+            jobAccountOffsets.price,
+            getU64Encoder().encode(convertNosToBaseUnits(filters.price.min))
+          )
+        );
+      }
+      if (filters.hasResult === false) {
+        gpaFilters.push(createMemcmpFilter(jobAccountOffsets.ipfsResult, new Uint8Array(32)));
+      }
+    }
+    return gpaFilters;
+  }
+
+  /**
+   * Convert a price range in NOS to base units, the unit of the job price
+   */
+  function convertPriceRange({ min, max }: JobFilterRange): { min?: bigint; max?: bigint } {
+    return {
+      min: min === undefined ? undefined : convertNosToBaseUnits(min),
+      max: max === undefined ? undefined : convertNosToBaseUnits(max),
+    };
+  }
+
+  /**
+   * Apply the job filters that getProgramAccounts can't evaluate
+   */
+  function matchesJobFilters(job: Job, filters?: JobFilters): boolean {
+    if (!filters) return true;
+    const inRange = (
+      value: number | bigint,
+      range?: { min?: number | bigint; max?: number | bigint }
+    ) =>
+      !range ||
+      ((range.min === undefined || value >= range.min) &&
+        (range.max === undefined || value <= range.max));
+    return (
+      inRange(job.timeStart, filters.timeStart) &&
+      inRange(job.timeEnd, filters.timeEnd) &&
+      inRange(job.price, filters.price && convertPriceRange(filters.price)) &&
+      (filters.hasResult === undefined || (job.ipfsResult !== null) === filters.hasResult)
+    );
+  }
+
   /**
    * Get the required wallet or throw an error if not available
    */
@@ -275,13 +684,15 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
 
   function createInstructionsHelper(
     get: JobsProgram['get'],
-    getRuns: JobsProgram['runs']
+    getRuns: JobsProgram['runs'],
+    getRun: JobsProgram['run']
   ): InstructionsHelperParams {
     return {
       deps,
       config,
       client,
       get,
+      getRun,
       getRuns,
       getRequiredWallet,
       getStaticAccounts,
@@ -350,17 +761,7 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
         const jobAccounts = await client.fetchAllJobAccount(deps.solana.rpc, addresses);
         const jobs = jobAccounts.map((jobAccount) => transformJobAccount(jobAccount));
         if (checkRuns) {
-          const runs = await this.runs();
-          jobs.forEach((job) => {
-            if (job.state === JobState.QUEUED) {
-              const run = runs.find((run) => run.job === job.address);
-              if (run) {
-                job.state = JobState.RUNNING;
-                job.timeStart = run.time;
-                job.node = run.node;
-              }
-            }
-          });
+          await mergeRunsIntoJobs(jobs, (filters) => this.runs(filters));
         }
         return jobs;
       } catch (err) {
@@ -372,70 +773,12 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
     /**
      * Fetch all job accounts
      */
-    async all(
-      filters?: {
-        state?: JobState;
-        market?: Address;
-        node?: Address;
-        project?: Address;
-      },
-      checkRuns: boolean = false
-    ): Promise<Job[]> {
+    async all(filters?: JobFilters, checkRuns: boolean = false): Promise<Job[]> {
       try {
-        const extraGPAFilters: GetProgramAccountsMemcmpFilter[] = [];
-        if (filters) {
-          if (typeof filters.state === 'number') {
-            extraGPAFilters.push({
-              memcmp: {
-                offset: BigInt(208),
-                bytes: bs58.encode(Buffer.from([filters.state])) as Base58EncodedBytes,
-                encoding: 'base58',
-              },
-            });
-          }
-          if (filters.project) {
-            extraGPAFilters.push({
-              memcmp: {
-                offset: BigInt(176),
-                bytes: filters.project.toString() as Base58EncodedBytes,
-                encoding: 'base58',
-              },
-            });
-          }
-          if (filters.node) {
-            extraGPAFilters.push({
-              memcmp: {
-                offset: BigInt(104),
-                bytes: filters.node.toString() as Base58EncodedBytes,
-                encoding: 'base58',
-              },
-            });
-          }
-          if (filters.market) {
-            extraGPAFilters.push({
-              memcmp: {
-                offset: BigInt(72),
-                bytes: filters.market.toString() as Base58EncodedBytes,
-                encoding: 'base58',
-              },
-            });
-          }
-        }
         const getProgramAccountsResponse = await deps.solana.rpc
           .getProgramAccounts(programId, {
             encoding: 'base64',
-            filters: [
-              {
-                memcmp: {
-                  offset: BigInt(0),
-                  bytes: bs58.encode(
-                    Buffer.from(client.JOB_ACCOUNT_DISCRIMINATOR)
-                  ) as Base58EncodedBytes,
-                  encoding: 'base58',
-                },
-              },
-              ...extraGPAFilters,
-            ],
+            filters: getJobFilters(filters),
           })
           .send();
 
@@ -453,25 +796,74 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
           })
           .filter((account: Job | null): account is Job => account !== null);
         if (checkRuns) {
-          const runs = await this.runs();
-          jobs.forEach((job) => {
-            if (job.state === JobState.QUEUED) {
-              const run = runs.find((run) => run.job === job.address);
-              if (run) {
-                job.state = JobState.RUNNING;
-                job.timeStart = run.time;
-                job.node = run.node;
-              }
-            }
-          });
+          await mergeRunsIntoJobs(jobs, (filters) => this.runs(filters));
         }
-        return jobs;
+        return jobs.filter((job) => matchesJobFilters(job, filters));
       } catch (err) {
         deps.logger.error(`Failed to fetch all jobs ${err}`);
         throw err;
       }
     },
 
+    /**
+     * Query job accounts with a key-only prefetch and batched hydration
+     */
+    async *query(filters?: JobFilters, options: JobQueryOptions = {}): AsyncGenerator<Job> {
+      const { pageSize = MAX_QUERY_PAGE_SIZE, checkRuns = false } = options;
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_QUERY_PAGE_SIZE) {
+        throw new NosanaError(
+          `pageSize must be an integer between 1 and ${MAX_QUERY_PAGE_SIZE}`,
+          ErrorCodes.VALIDATION_ERROR,
+          { pageSize }
+        );
+      }
+
+      let addresses: Address[];
+      try {
+        // Only fetch the account keys, the data is fetched page by page below
+        const getProgramAccountsResponse = await deps.solana.rpc
+          .getProgramAccounts(programId, {
+            encoding: 'base64',
+            dataSlice: { offset: 0, length: 0 },
+            filters: getJobFilters(filters),
+          })
+          .send();
+        addresses = getProgramAccountsResponse.map(
+          (result: (typeof getProgramAccountsResponse)[0]) => result.pubkey
+        );
+      } catch (err) {
+        deps.logger.error(`Failed to query job addresses ${err}`);
+        throw err;
+      }
+
+      for (let i = 0; i < addresses.length; i += pageSize) {
+        let jobs: Job[];
+        try {
+          const maybeJobAccounts = await client.fetchAllMaybeJobAccount(
+            deps.solana.rpc,
+            addresses.slice(i, i + pageSize)
+          );
+          // Accounts closed since the prefetch are skipped
+          jobs = maybeJobAccounts
+            .filter(
+              (
+                maybeJobAccount
+              ): maybeJobAccount is MaybeAccount<programClient.JobAccount> & {
+                exists: true;
+              } => maybeJobAccount.exists
+            )
+            .map((jobAccount) => transformJobAccount(jobAccount));
+          if (checkRuns) {
+            await mergeRunsIntoJobs(jobs, (filters) => this.runs(filters));
+          }
+        } catch (err) {
+          deps.logger.error(`Failed to fetch job page ${err}`);
+          throw err;
+        }
+        yield* jobs.filter((job) => matchesJobFilters(job, filters));
+      }
+    },
+
     /**
      * Fetch all run accounts
      */
@@ -480,22 +872,10 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
         const extraGPAFilters: GetProgramAccountsMemcmpFilter[] = [];
         if (filters) {
           if (filters.node) {
-            extraGPAFilters.push({
-              memcmp: {
-                offset: BigInt(40),
-                bytes: filters.node.toString() as Base58EncodedBytes,
-                encoding: 'base58',
-              },
-            });
+            extraGPAFilters.push(createMemcmpFilter(runAccountOffsets.node, filters.node));
           }
           if (filters.job) {
-            extraGPAFilters.push({
-              memcmp: {
-                offset: BigInt(8),
-                bytes: filters.job.toString() as Base58EncodedBytes,
-                encoding: 'base58',
-              },
-            });
+            extraGPAFilters.push(createMemcmpFilter(runAccountOffsets.job, filters.job));
           }
         }
         const getProgramAccountsResponse = await deps.solana.rpc
@@ -536,6 +916,56 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
       }
     },
 
+    /**
+     * Fetch the decoded queue of a market
+     */
+    async queue(addr: Address): Promise<DecodedMarketQueue> {
+      try {
+        const market = await this.market(addr);
+        if (market.queueType === MarketQueueType.JOB_QUEUE) {
+          const jobs = market.queue.length > 0 ? await this.multiple(market.queue, false) : [];
+          return { market: addr, queueType: MarketQueueType.JOB_QUEUE, jobs };
+        }
+
+        // Nodes are queued with the stake account derived from their address
+        const stakeAddresses = await Promise.all(
+          market.queue.map((node) =>
+            deps.solana.pda(['stake', config.nosTokenAddress, node], config.stakeAddress)
+          )
+        );
+        const stakeAccounts =
+          stakeAddresses.length > 0
+            ? await stakingClient.fetchAllMaybeStakeAccount(deps.solana.rpc, stakeAddresses)
+            : [];
+        const nodes = market.queue.map((node, i) => {
+          const stakeAccount = stakeAccounts[i];
+          return { node, stake: stakeAccount?.exists ? transformStakeAccount(stakeAccount) : null };
+        });
+        return { market: addr, queueType: MarketQueueType.NODE_QUEUE, nodes };
+      } catch (err) {
+        deps.logger.error(`Failed to fetch market queue ${err}`);
+        throw err;
+      }
+    },
+
+    /**
+     * Find the position of a job or node in the queue of a market
+     */
+    async queuePosition(addr: Address, jobOrNode: Address): Promise<QueuePosition> {
+      try {
+        const market = await this.market(addr);
+        const index = market.queue.indexOf(jobOrNode);
+        return {
+          queueType: market.queueType,
+          position: index === -1 ? null : index,
+          length: market.queue.length,
+        };
+      } catch (err) {
+        deps.logger.error(`Failed to fetch queue position ${err}`);
+        throw err;
+      }
+    },
+
     /**
      * Fetch all market accounts
      */
@@ -577,20 +1007,94 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
         throw err;
       }
     },
+    /**
+     * Estimate the cost of a job from the market job price and the program fees
+     */
+    async estimateCost(params) {
+      return estimateCost(params, { deps, client });
+    },
     /**
      * Post a new job to the marketplace
      */
     async post(params) {
-      return Instructions.post(params, createInstructionsHelper(this.get, this.runs));
+      return Instructions.post(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    /**
+     * Pin, post and wait for a job to reach a final state
+     */
+    async postAndWait(params, options = {}) {
+      return postAndWait(params, options, {
+        deps,
+        post: this.post.bind(this),
+        get: this.get.bind(this),
+        watch: this.watch.bind(this),
+      });
     },
     async extend(params) {
-      return Instructions.extend(params, createInstructionsHelper(this.get, this.runs));
+      return Instructions.extend(params, createInstructionsHelper(this.get, this.runs, this.run));
     },
     async delist(params) {
-      return Instructions.delist(params, createInstructionsHelper(this.get, this.runs));
+      return Instructions.delist(params, createInstructionsHelper(this.get, this.runs, this.run));
     },
     async end(params) {
-      return Instructions.end(params, createInstructionsHelper(this.get, this.runs));
+      return Instructions.end(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async work(params) {
+      return Instructions.work(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async quit(params) {
+      return Instructions.quit(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async finish(params) {
+      return Instructions.finish(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async claim(params) {
+      return Instructions.claim(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async assign(params) {
+      return Instructions.assign(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async recover(params) {
+      return Instructions.recover(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async stop(params) {
+      return Instructions.stop(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async complete(params) {
+      return Instructions.complete(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async openMarket(params) {
+      return Instructions.openMarket(
+        params,
+        createInstructionsHelper(this.get, this.runs, this.run)
+      );
+    },
+    async updateMarket(params) {
+      return Instructions.updateMarket(
+        params,
+        createInstructionsHelper(this.get, this.runs, this.run)
+      );
+    },
+    async closeMarket(params) {
+      return Instructions.closeMarket(
+        params,
+        createInstructionsHelper(this.get, this.runs, this.run)
+      );
+    },
+    async closeMarketAdmin(params) {
+      return Instructions.closeMarketAdmin(
+        params,
+        createInstructionsHelper(this.get, this.runs, this.run)
+      );
+    },
+    async clean(params) {
+      return Instructions.clean(params, createInstructionsHelper(this.get, this.runs, this.run));
+    },
+    async cleanAdmin(params) {
+      return Instructions.cleanAdmin(
+        params,
+        createInstructionsHelper(this.get, this.runs, this.run)
+      );
     },
     /**
      * Monitor program account updates using async iterators.
@@ -613,9 +1117,14 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
      * stop();
      * ```
      *
+     * @param filters - Optional market, node, payer, project, state and account type filters
+     * @param options - Reconnect backoff, gap backfill and connection state handler
      * @returns A tuple of [eventStream, stopFunction]
      */
-    async monitor(): Promise<[AsyncIterable<SimpleMonitorEvent>, () => void]> {
+    async monitor(
+      filters?: MonitorFilters,
+      options?: MonitorOptions
+    ): Promise<[AsyncIterable<SimpleMonitorEvent>, () => void]> {
       const monitorFunctions = createMonitorFunctions(this.get, this.runs, {
         deps,
         config,
@@ -625,7 +1134,7 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
         transformMarketAccount,
         mergeRunIntoJob,
       });
-      return monitorFunctions.monitor();
+      return monitorFunctions.monitor(filters, options);
     },
     /**
      * Monitor program account updates with detailed events for each account type.
@@ -653,9 +1162,14 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
      * stop();
      * ```
      *
+     * @param filters - Optional market, node, payer, project, state and account type filters
+     * @param options - Reconnect backoff, gap backfill and connection state handler
      * @returns A tuple of [eventStream, stopFunction]
      */
-    async monitorDetailed(): Promise<[AsyncIterable<MonitorEvent>, () => void]> {
+    async monitorDetailed(
+      filters?: MonitorFilters,
+      options?: MonitorOptions
+    ): Promise<[AsyncIterable<MonitorEvent>, () => void]> {
       const monitorFunctions = createMonitorFunctions(this.get, this.runs, {
         deps,
         config,
@@ -665,7 +1179,40 @@ export function createJobsProgram(deps: ProgramDeps, config: ProgramConfig): Job
         transformMarketAccount,
         mergeRunIntoJob,
       });
-      return monitorFunctions.monitorDetailed();
+      return monitorFunctions.monitorDetailed(filters, options);
+    },
+    /**
+     * Watch a single job with account subscriptions on the job and its run account
+     */
+    watch(job, options = {}) {
+      return watch(job, options, this.get, this.runs, {
+        deps,
+        config,
+        client,
+        transformJobAccount,
+        transformRunAccount,
+        transformMarketAccount,
+        mergeRunIntoJob,
+      });
+    },
+    /**
+     * Watch job state transitions built on the auto-merged monitor stream
+     */
+    async watchTransitions(filters, options) {
+      return watchTransitions(filters, options, {
+        deps,
+        monitor: this.monitor.bind(this),
+        all: this.all.bind(this),
+        market: this.market.bind(this),
+        markets: this.markets.bind(this),
+        fetchJob: async (address) => {
+          const maybeJob = await client.fetchMaybeJobAccount(deps.solana.rpc, address);
+          if (!maybeJob.exists) return null;
+          const job = transformJobAccount(maybeJob);
+          await mergeRunsIntoJobs([job], (filters) => this.runs(filters));
+          return job;
+        },
+      });
     },
   };
 }
@@ -0,0 +1,124 @@
+import type { Address } from '@solana/kit';
+import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
+import { convertBaseUnitsToNos, convertNosToBaseUnits } from '../../../utils/index.js';
+import type { ProgramDeps } from '../../../types.js';
+import type { InstructionsHelperParams } from './instructions/types.js';
+
+// The jobs program takes a tenth of the job price as a fee for the rewards program
+const JOB_FEE_FRACTION = BigInt(10);
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+export type EstimateCostParams = {
+  market: Address;
+  timeout: number | bigint;
+  /**
+   * Signatures of the post transaction, 3 by default: the wallet and the new job and
+   * run accounts. A payer other than the wallet adds one.
+   */
+  signatures?: number;
+};
+
+export type JobCostEstimate = {
+  /**
+   * Price of the job for the full timeout, in NOS
+   */
+  jobPrice: number;
+  /**
+   * Fee paid to the rewards program on top of the job price, in NOS
+   */
+  rewardsFee: number;
+  /**
+   * Total amount of NOS taken from the payer
+   */
+  totalNos: number;
+  /**
+   * Rent of the accounts created by the instruction plus signature fees, in lamports
+   */
+  networkFee: number;
+};
+
+export type EstimateCost = (params: EstimateCostParams) => Promise<JobCostEstimate>;
+
+/**
+ * Compute the cost of a job from its price per second in NOS base units
+ */
+export function getJobCost(
+  price: number | bigint,
+  timeout: number | bigint,
+  networkFee: number
+): JobCostEstimate {
+  const jobPrice = BigInt(price) * BigInt(timeout);
+  const rewardsFee = jobPrice / JOB_FEE_FRACTION;
+  return {
+    jobPrice: convertBaseUnitsToNos(jobPrice),
+    rewardsFee: convertBaseUnitsToNos(rewardsFee),
+    totalNos: convertBaseUnitsToNos(jobPrice + rewardsFee),
+    networkFee,
+  };
+}
+
+/**
+ * Get the signature fees of a transaction, in lamports
+ */
+export function getSignatureFee(signatures: number): number {
+  return signatures * LAMPORTS_PER_SIGNATURE;
+}
+
+export async function estimateCost(
+  { market, timeout, signatures = 3 }: EstimateCostParams,
+  { deps, client }: Pick<InstructionsHelperParams, 'deps' | 'client'>
+): Promise<JobCostEstimate> {
+  try {
+    const [marketAccount, jobRent, runRent] = await Promise.all([
+      client.fetchMarketAccount(deps.solana.rpc, market),
+      deps.solana.rpc.getMinimumBalanceForRentExemption(BigInt(client.getJobAccountSize())).send(),
+      deps.solana.rpc.getMinimumBalanceForRentExemption(BigInt(client.getRunAccountSize())).send(),
+    ]);
+
+    const networkFee = Number(jobRent) + Number(runRent) + getSignatureFee(signatures);
+
+    return getJobCost(marketAccount.data.jobPrice, timeout, networkFee);
+  } catch (err) {
+    const errorMessage = `Failed to estimate job cost: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Compare a job cost with the NOS and SOL balance of the payer.
+ * Throws an INSUFFICIENT_FUNDS error with the shortfall when the payer can't afford it.
+ */
+export async function assertSufficientFunds(
+  cost: JobCostEstimate,
+  payer: Address,
+  deps: ProgramDeps
+): Promise<void> {
+  const [nosBalance, solBalance] = await Promise.all([
+    deps.nos.getBalance(payer),
+    deps.solana.getBalance(payer),
+  ]);
+
+  const nosShortfall = convertNosToBaseUnits(cost.totalNos) - convertNosToBaseUnits(nosBalance);
+  const solShortfall = cost.networkFee - solBalance;
+
+  if (nosShortfall > 0 || solShortfall > 0) {
+    throw new NosanaError(
+      `Insufficient funds for ${payer}: ${cost.totalNos} NOS and ${cost.networkFee} lamports required`,
+      ErrorCodes.INSUFFICIENT_FUNDS,
+      {
+        payer,
+        nos: {
+          required: cost.totalNos,
+          available: nosBalance,
+          shortfall: nosShortfall > 0 ? convertBaseUnitsToNos(nosShortfall) : 0,
+        },
+        sol: {
+          required: cost.networkFee,
+          available: solBalance,
+          shortfall: Math.max(solShortfall, 0),
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import bs58 from 'bs58';
+import { type Address, type TransactionSigner, generateKeyPairSigner } from '@solana/kit';
+import type { getAssignInstruction } from '../../../../generated_clients/jobs/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type AssignParams = {
+  market: Address;
+  node: Address;
+  timeout: number | bigint;
+  ipfsHash: string;
+  payer?: TransactionSigner;
+};
+
+export type AssignInstruction = ReturnType<typeof getAssignInstruction>;
+
+export type Assign = (params: AssignParams) => Promise<AssignInstruction>;
+
+export async function assign(
+  { market, node, timeout, ipfsHash, payer }: AssignParams,
+  {
+    config,
+    deps,
+    client,
+    getRequiredWallet,
+    getStaticAccounts,
+    getNosATA,
+  }: InstructionsHelperParams
+): Promise<AssignInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Use provided payer or fall back to wallet
+    const nosPayer = payer ?? wallet;
+
+    // Generate new keypairs for job and run
+    const [jobKey, runKey, associatedTokenAddress, { jobsProgram, ...staticAccounts }] =
+      await Promise.all([
+        generateKeyPairSigner(),
+        generateKeyPairSigner(),
+        getNosATA(nosPayer.address),
+        getStaticAccounts(),
+      ]);
+    const vault = await deps.solana.pda([market, config.nosTokenAddress], jobsProgram);
+
+    // Create the assign instruction, which lists the job and starts the run on the node
+    return client.getAssignInstruction(
+      {
+        job: jobKey,
+        market,
+        run: runKey,
+        node,
+        user: associatedTokenAddress,
+        vault,
+        payer: nosPayer,
+        authority: wallet,
+        ipfsJob: bs58.decode(ipfsHash).subarray(2),
+        timeout,
+        ...staticAccounts,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create assign instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,74 @@
+import { type Address, type TransactionSigner, generateKeyPairSigner } from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import type { getClaimInstruction } from '../../../../generated_clients/jobs/index.js';
+import { JobState } from '../JobsProgram.js';
+import type { InstructionsHelperParams } from './types.js';
+import { assertJobState } from './validation.js';
+
+export type ClaimParams = {
+  job: Address;
+  nft?: Address;
+  metadata?: Address;
+  payer?: TransactionSigner;
+};
+
+export type ClaimInstruction = ReturnType<typeof getClaimInstruction>;
+
+export type Claim = (params: ClaimParams) => Promise<ClaimInstruction>;
+
+export async function claim(
+  { job, nft, metadata, payer }: ClaimParams,
+  {
+    config,
+    deps,
+    client,
+    get,
+    getRuns,
+    getRequiredWallet,
+    getStaticAccounts,
+  }: InstructionsHelperParams
+): Promise<ClaimInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Use provided payer or fall back to wallet
+    const runPayer = payer ?? wallet;
+
+    // Get Required accounts
+    const [jobAccount, [run], runKey, stake, { jobsProgram }] = await Promise.all([
+      get(job, false),
+      getRuns({ job }),
+      generateKeyPairSigner(),
+      deps.solana.pda(['stake', config.nosTokenAddress, wallet.address], config.stakeAddress),
+      getStaticAccounts(),
+    ]);
+    // A queued job with a run account is already running and cannot be claimed
+    assertJobState(
+      run ? { ...jobAccount, state: JobState.RUNNING } : jobAccount,
+      [JobState.QUEUED],
+      'claim'
+    );
+
+    return client.getClaimInstruction(
+      {
+        job,
+        run: runKey,
+        market: jobAccount.market,
+        stake,
+        // Markets without a node access key accept the system program as placeholder
+        nft: nft ?? SYSTEM_PROGRAM_ADDRESS,
+        metadata: metadata ?? SYSTEM_PROGRAM_ADDRESS,
+        payer: runPayer,
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create claim instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
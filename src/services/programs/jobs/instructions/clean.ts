@@ -0,0 +1,72 @@
+import type { Address } from '@solana/kit';
+import type {
+  getCleanAdminInstruction,
+  getCleanInstruction,
+} from '../../../../generated_clients/jobs/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type CleanParams = {
+  job: Address;
+};
+
+export type CleanInstruction = ReturnType<typeof getCleanInstruction>;
+
+export type Clean = (params: CleanParams) => Promise<CleanInstruction>;
+
+export type CleanAdminInstruction = ReturnType<typeof getCleanAdminInstruction>;
+
+export type CleanAdmin = (params: CleanParams) => Promise<CleanAdminInstruction>;
+
+export async function clean(
+  { job }: CleanParams,
+  { deps, client, get, getStaticAccounts }: InstructionsHelperParams
+): Promise<CleanInstruction> {
+  try {
+    // Get Required accounts
+    const [{ market, payer }, { jobsProgram }] = await Promise.all([
+      get(job, false),
+      getStaticAccounts(),
+    ]);
+
+    return client.getCleanInstruction(
+      {
+        job,
+        market,
+        payer, // Payer of the job account, receives the rent back
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create clean instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+export async function cleanAdmin(
+  { job }: CleanParams,
+  { deps, client, get, getRequiredWallet, getStaticAccounts }: InstructionsHelperParams
+): Promise<CleanAdminInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Get Required accounts
+    const [{ payer }, { jobsProgram }] = await Promise.all([get(job, false), getStaticAccounts()]);
+
+    return client.getCleanAdminInstruction(
+      {
+        job,
+        payer, // Payer of the job account, receives the rent back
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create cleanAdmin instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,88 @@
+import type { Address } from '@solana/kit';
+import type {
+  getCloseAdminInstruction,
+  getCloseInstruction,
+} from '../../../../generated_clients/jobs/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type CloseMarketParams = {
+  market: Address;
+};
+
+export type CloseMarketInstruction = ReturnType<typeof getCloseInstruction>;
+
+export type CloseMarket = (params: CloseMarketParams) => Promise<CloseMarketInstruction>;
+
+export type CloseMarketAdminInstruction = ReturnType<typeof getCloseAdminInstruction>;
+
+export type CloseMarketAdmin = (params: CloseMarketParams) => Promise<CloseMarketAdminInstruction>;
+
+/**
+ * Resolve the accounts shared by the close and closeAdmin instructions.
+ * Tokens left in the vault are sent to the ATA of the signing wallet.
+ */
+async function getCloseMarketAccounts(
+  market: Address,
+  { config, deps, getRequiredWallet, getStaticAccounts, getNosATA }: InstructionsHelperParams
+) {
+  const wallet = getRequiredWallet();
+  const [walletATA, { jobsProgram }] = await Promise.all([
+    getNosATA(wallet.address),
+    getStaticAccounts(),
+  ]);
+  const vault = await deps.solana.pda([market, config.nosTokenAddress], jobsProgram);
+
+  return { wallet, walletATA, vault, jobsProgram };
+}
+
+export async function closeMarket(
+  { market }: CloseMarketParams,
+  helpers: InstructionsHelperParams
+): Promise<CloseMarketInstruction> {
+  const { deps, client } = helpers;
+  try {
+    const { wallet, walletATA, vault, jobsProgram } = await getCloseMarketAccounts(market, helpers);
+
+    return client.getCloseInstruction(
+      {
+        market,
+        vault,
+        user: walletATA,
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create close instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+export async function closeMarketAdmin(
+  { market }: CloseMarketParams,
+  helpers: InstructionsHelperParams
+): Promise<CloseMarketAdminInstruction> {
+  const { deps, client } = helpers;
+  try {
+    const { wallet, walletATA, vault, jobsProgram } = await getCloseMarketAccounts(market, helpers);
+
+    return client.getCloseAdminInstruction(
+      {
+        market,
+        vault,
+        user: walletATA,
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create closeAdmin instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,45 @@
+import bs58 from 'bs58';
+import type { Address } from '@solana/kit';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import type { getCompleteInstruction } from '../../../../generated_clients/jobs/index.js';
+import { JobState } from '../JobsProgram.js';
+import type { InstructionsHelperParams } from './types.js';
+import { assertJobState } from './validation.js';
+
+export type CompleteParams = {
+  job: Address;
+  ipfsResult: string;
+};
+
+export type CompleteInstruction = ReturnType<typeof getCompleteInstruction>;
+
+export type Complete = (params: CompleteParams) => Promise<CompleteInstruction>;
+
+export async function complete(
+  { job, ipfsResult }: CompleteParams,
+  { deps, client, get, getRequiredWallet, getStaticAccounts }: InstructionsHelperParams
+): Promise<CompleteInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Get Required accounts
+    const [jobAccount, { jobsProgram }] = await Promise.all([get(job, false), getStaticAccounts()]);
+    // Only stopped jobs can be completed with a result
+    assertJobState(jobAccount, [JobState.STOPPED], 'complete');
+
+    return client.getCompleteInstruction(
+      {
+        job,
+        authority: wallet,
+        ipfsResult: bs58.decode(ipfsResult).subarray(2),
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create complete instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
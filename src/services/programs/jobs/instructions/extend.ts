@@ -1,11 +1,17 @@
 import type { Address, TransactionSigner } from '@solana/kit';
 import type { getExtendInstruction } from '../../../../generated_clients/jobs/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertSufficientFunds, getJobCost, getSignatureFee } from '../estimateCost.js';
 import type { InstructionsHelperParams } from './types.js';
 
 export type ExtendParams = {
   job: Address;
   timeout: number | bigint;
   payer?: TransactionSigner;
+  /**
+   * Check that the payer can afford the extension before building the instruction
+   */
+  checkBalance?: boolean;
 };
 
 export type ExtendInstruction = ReturnType<typeof getExtendInstruction>;
@@ -13,7 +19,7 @@ export type ExtendInstruction = ReturnType<typeof getExtendInstruction>;
 export type Extend = (params: ExtendParams) => Promise<ExtendInstruction>;
 
 export async function extend(
-  { job, timeout, payer }: ExtendParams,
+  { job, timeout, payer, checkBalance = false }: ExtendParams,
   {
     config,
     deps,
@@ -31,12 +37,19 @@ export async function extend(
 
     // Get Required accounts
     const [
-      { market, timeout: currentTimeout },
+      { market, price, timeout: currentTimeout },
       associatedTokenAddress,
       { jobsProgram, ...staticAccounts },
     ] = await Promise.all([get(job, false), getNosATA(nosPayer.address), getStaticAccounts()]);
     const vault = await deps.solana.pda([market, config.nosTokenAddress], jobsProgram);
 
+    if (checkBalance) {
+      // Extending creates no accounts, only the wallet and payer sign
+      const signatures = nosPayer.address === wallet.address ? 1 : 2;
+      const cost = getJobCost(price, timeout, getSignatureFee(signatures));
+      await assertSufficientFunds(cost, nosPayer.address, deps);
+    }
+
     // Create the extend instruction
     return client.getExtendInstruction(
       {
@@ -54,6 +67,7 @@ export async function extend(
       }
     );
   } catch (err) {
+    if (err instanceof NosanaError) throw err;
     const errorMessage = `Failed to create extend instruction: ${err instanceof Error ? err.message : String(err)}`;
     deps.logger.error(errorMessage);
     throw new Error(errorMessage);
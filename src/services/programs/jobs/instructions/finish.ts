@@ -0,0 +1,71 @@
+import bs58 from 'bs58';
+import type { Address } from '@solana/kit';
+import type { getFinishInstruction } from '../../../../generated_clients/jobs/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type FinishParams = {
+  job: Address;
+  ipfsResult: string;
+};
+
+export type FinishInstruction = ReturnType<typeof getFinishInstruction>;
+
+export type Finish = (params: FinishParams) => Promise<FinishInstruction>;
+
+export async function finish(
+  { job, ipfsResult }: FinishParams,
+  {
+    config,
+    deps,
+    client,
+    get,
+    getRuns,
+    getRequiredWallet,
+    getStaticAccounts,
+    getNosATA,
+  }: InstructionsHelperParams
+): Promise<FinishInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Get Required accounts
+    const [{ market, payer, project }, [run], { jobsProgram }] = await Promise.all([
+      get(job, false),
+      getRuns({ job }),
+      getStaticAccounts(),
+    ]);
+
+    if (!run) {
+      throw new Error('No job run account found for the specified job');
+    }
+
+    // Get associated token addresses
+    const [payerATA, nodeATA, vault] = await Promise.all([
+      getNosATA(payer), // ATA for the job's payer (for deposit)
+      getNosATA(wallet.address), // ATA for the node finishing the job (for user)
+      deps.solana.pda([market, config.nosTokenAddress], jobsProgram),
+    ]);
+
+    return client.getFinishInstruction(
+      {
+        job,
+        run: run.address,
+        market,
+        vault,
+        deposit: payerATA, // ATA of the job payer
+        user: nodeATA, // ATA of the node receiving the payment
+        payerJob: payer, // Payer of the job account
+        payerRun: run.payer, // Payer of the run account, receives the rent back
+        project,
+        authority: wallet,
+        ipfsResult: bs58.decode(ipfsResult).subarray(2),
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create finish instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -1,4 +1,16 @@
+export * from './assign.js';
+export * from './claim.js';
+export * from './clean.js';
+export * from './closeMarket.js';
+export * from './complete.js';
 export * from './delist.js';
 export * from './end.js';
 export * from './extend.js';
+export * from './finish.js';
+export * from './openMarket.js';
 export * from './post.js';
+export * from './quit.js';
+export * from './recover.js';
+export * from './stop.js';
+export * from './updateMarket.js';
+export * from './work.js';
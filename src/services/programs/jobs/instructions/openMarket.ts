@@ -0,0 +1,74 @@
+import { type Address, type TransactionSigner, generateKeyPairSigner } from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import type { getOpenInstruction } from '../../../../generated_clients/jobs/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { convertNosToBaseUnits } from '../../../../utils/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type OpenMarketParams = {
+  /** Job price per second in NOS */
+  jobPrice: number;
+  /** Maximum job duration in seconds */
+  jobTimeout: number | bigint;
+  /** Time in seconds after which queued jobs expire */
+  jobExpiration: number | bigint;
+  /** Minimum amount of xNOS a node needs to join the market */
+  nodeXnosMinimum: number;
+  /** Collection address of the NFT nodes need to hold, defaults to no access key */
+  nodeAccessKey?: Address;
+  jobType?: number;
+  /** Signer for the new market account, a new keypair is generated when omitted */
+  market?: TransactionSigner;
+};
+
+export type OpenMarketInstruction = ReturnType<typeof getOpenInstruction>;
+
+export type OpenMarket = (params: OpenMarketParams) => Promise<OpenMarketInstruction>;
+
+export async function openMarket(
+  {
+    jobPrice,
+    jobTimeout,
+    jobExpiration,
+    nodeXnosMinimum,
+    nodeAccessKey,
+    jobType,
+    market,
+  }: OpenMarketParams,
+  { config, deps, client, getRequiredWallet, getStaticAccounts }: InstructionsHelperParams
+): Promise<OpenMarketInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+
+    // Use provided market signer or generate a new keypair
+    const [marketKey, { jobsProgram }] = await Promise.all([
+      market ?? generateKeyPairSigner(),
+      getStaticAccounts(),
+    ]);
+    const vault = await deps.solana.pda([marketKey.address, config.nosTokenAddress], jobsProgram);
+
+    // Create the open instruction
+    return client.getOpenInstruction(
+      {
+        mint: config.nosTokenAddress,
+        market: marketKey,
+        vault,
+        authority: wallet,
+        accessKey: nodeAccessKey ?? SYSTEM_PROGRAM_ADDRESS,
+        jobExpiration,
+        jobPrice: convertNosToBaseUnits(jobPrice),
+        jobTimeout,
+        jobType: jobType ?? 0,
+        nodeXnosMinimum: convertNosToBaseUnits(nodeXnosMinimum),
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create open instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -1,6 +1,8 @@
 import bs58 from 'bs58';
 import { type Address, type TransactionSigner, generateKeyPairSigner } from '@solana/kit';
 import type { getListInstruction } from '../../../../generated_clients/jobs/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertSufficientFunds, estimateCost } from '../estimateCost.js';
 import type { InstructionsHelperParams } from './types.js';
 
 export type PostParams = {
@@ -9,6 +11,10 @@ export type PostParams = {
   ipfsHash: string;
   node?: Address;
   payer?: TransactionSigner;
+  /**
+   * Check that the payer can afford the job before building the instruction
+   */
+  checkBalance?: boolean;
 };
 
 export type PostInstruction = ReturnType<typeof getListInstruction>;
@@ -16,7 +22,7 @@ export type PostInstruction = ReturnType<typeof getListInstruction>;
 export type Post = (params: PostParams) => Promise<PostInstruction>;
 
 export async function post(
-  { market, timeout, ipfsHash, payer }: PostParams,
+  { market, timeout, ipfsHash, payer, checkBalance = false }: PostParams,
   {
     config,
     deps,
@@ -41,6 +47,13 @@ export async function post(
       ]);
     const vault = await deps.solana.pda([market, config.nosTokenAddress], jobsProgram);
 
+    if (checkBalance) {
+      // The wallet and the new job and run accounts sign, plus the payer if it isn't the wallet
+      const signatures = nosPayer.address === wallet.address ? 3 : 4;
+      const cost = await estimateCost({ market, timeout, signatures }, { deps, client });
+      await assertSufficientFunds(cost, nosPayer.address, deps);
+    }
+
     // Create the list instruction
     return client.getListInstruction(
       {
@@ -60,6 +73,7 @@ export async function post(
       }
     );
   } catch (err) {
+    if (err instanceof NosanaError) throw err;
     const errorMessage = `Failed to create list instruction: ${err instanceof Error ? err.message : String(err)}`;
     deps.logger.error(errorMessage);
     throw new Error(errorMessage);
@@ -0,0 +1,38 @@
+import type { Address } from '@solana/kit';
+import type { getQuitInstruction } from '../../../../generated_clients/jobs/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type QuitParams = {
+  run: Address;
+};
+
+export type QuitInstruction = ReturnType<typeof getQuitInstruction>;
+
+export type Quit = (params: QuitParams) => Promise<QuitInstruction>;
+
+export async function quit(
+  { run }: QuitParams,
+  { deps, client, getRun, getRequiredWallet, getStaticAccounts }: InstructionsHelperParams
+): Promise<QuitInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Get Required accounts
+    const [{ job, payer }, { jobsProgram }] = await Promise.all([getRun(run), getStaticAccounts()]);
+
+    return client.getQuitInstruction(
+      {
+        job,
+        run,
+        payer, // Payer of the run account, receives the rent back
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create quit instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,60 @@
+import type { Address } from '@solana/kit';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import type { getRecoverInstruction } from '../../../../generated_clients/jobs/index.js';
+import { JobState } from '../JobsProgram.js';
+import type { InstructionsHelperParams } from './types.js';
+import { assertJobState } from './validation.js';
+
+export type RecoverParams = {
+  job: Address;
+};
+
+export type RecoverInstruction = ReturnType<typeof getRecoverInstruction>;
+
+export type Recover = (params: RecoverParams) => Promise<RecoverInstruction>;
+
+export async function recover(
+  { job }: RecoverParams,
+  {
+    config,
+    deps,
+    client,
+    get,
+    getRequiredWallet,
+    getStaticAccounts,
+    getNosATA,
+  }: InstructionsHelperParams
+): Promise<RecoverInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Get Required accounts
+    const [jobAccount, { jobsProgram }] = await Promise.all([get(job, false), getStaticAccounts()]);
+    // Only stopped jobs still hold funds that can be recovered
+    assertJobState(jobAccount, [JobState.STOPPED], 'recover');
+    const { market, payer } = jobAccount;
+
+    const [payerATA, vault] = await Promise.all([
+      getNosATA(payer),
+      deps.solana.pda([market, config.nosTokenAddress], jobsProgram),
+    ]);
+
+    return client.getRecoverInstruction(
+      {
+        job,
+        market,
+        vault,
+        user: payerATA, // ATA of the job payer, receives the deposit back
+        payer,
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create recover instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
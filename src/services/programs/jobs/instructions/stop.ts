@@ -0,0 +1,59 @@
+import type { Address } from '@solana/kit';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import type { getStopInstruction } from '../../../../generated_clients/jobs/index.js';
+import { MarketQueueType } from '../JobsProgram.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type StopParams = {
+  market: Address;
+  node?: Address;
+};
+
+export type StopInstruction = ReturnType<typeof getStopInstruction>;
+
+export type Stop = (params: StopParams) => Promise<StopInstruction>;
+
+export async function stop(
+  { market, node }: StopParams,
+  { deps, client, getRequiredWallet, getStaticAccounts }: InstructionsHelperParams
+): Promise<StopInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Use provided node or fall back to wallet
+    const queuedNode = node ?? wallet.address;
+
+    // Get Required accounts
+    const [marketAccount, { jobsProgram }] = await Promise.all([
+      client.fetchMarketAccount(deps.solana.rpc, market),
+      getStaticAccounts(),
+    ]);
+
+    // A node can only leave the queue when it is queued in the market
+    if (
+      marketAccount.data.queueType !== MarketQueueType.NODE_QUEUE ||
+      !marketAccount.data.queue.includes(queuedNode)
+    ) {
+      throw new NosanaError(
+        `Node ${queuedNode} is not queued in market ${market}`,
+        ErrorCodes.VALIDATION_ERROR,
+        { market, node: queuedNode }
+      );
+    }
+
+    return client.getStopInstruction(
+      {
+        market,
+        node: queuedNode,
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create stop instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -10,6 +10,7 @@ export type InstructionsHelperParams = {
   config: ProgramConfig;
   client: typeof programClient;
   get: JobsProgram['get'];
+  getRun: JobsProgram['run'];
   getRuns: JobsProgram['runs'];
   getRequiredWallet: () => Wallet;
   getStaticAccounts: () => Promise<StaticAccounts>;
@@ -0,0 +1,70 @@
+import type { Address } from '@solana/kit';
+import type { getUpdateInstruction } from '../../../../generated_clients/jobs/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { convertNosToBaseUnits } from '../../../../utils/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type UpdateMarketParams = {
+  market: Address;
+  /** Job price per second in NOS */
+  jobPrice?: number;
+  /** Maximum job duration in seconds */
+  jobTimeout?: number | bigint;
+  /** Time in seconds after which queued jobs expire */
+  jobExpiration?: number | bigint;
+  /** Minimum amount of xNOS a node needs to join the market */
+  nodeXnosMinimum?: number;
+  /** Collection address of the NFT nodes need to hold */
+  nodeAccessKey?: Address;
+  jobType?: number;
+};
+
+export type UpdateMarketInstruction = ReturnType<typeof getUpdateInstruction>;
+
+export type UpdateMarket = (params: UpdateMarketParams) => Promise<UpdateMarketInstruction>;
+
+export async function updateMarket(
+  {
+    market,
+    jobPrice,
+    jobTimeout,
+    jobExpiration,
+    nodeXnosMinimum,
+    nodeAccessKey,
+    jobType,
+  }: UpdateMarketParams,
+  { deps, client, getRequiredWallet, getStaticAccounts }: InstructionsHelperParams
+): Promise<UpdateMarketInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // The program overwrites every setting, so keep the current values for omitted params
+    const [current, { jobsProgram }] = await Promise.all([
+      client.fetchMarketAccount(deps.solana.rpc, market),
+      getStaticAccounts(),
+    ]);
+
+    return client.getUpdateInstruction(
+      {
+        market,
+        accessKey: nodeAccessKey ?? current.data.nodeAccessKey,
+        authority: wallet,
+        jobExpiration: jobExpiration ?? current.data.jobExpiration,
+        jobPrice: jobPrice === undefined ? current.data.jobPrice : convertNosToBaseUnits(jobPrice),
+        jobType: jobType ?? current.data.jobType,
+        nodeStakeMinimum:
+          nodeXnosMinimum === undefined
+            ? current.data.nodeXnosMinimum
+            : convertNosToBaseUnits(nodeXnosMinimum),
+        jobTimeout: jobTimeout ?? current.data.jobTimeout,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create update instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,22 @@
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { JobState, type Job } from '../JobsProgram.js';
+
+/**
+ * Assert that a job is in one of the allowed states for an instruction.
+ *
+ * @param job The job to check, with run accounts merged where relevant
+ * @param allowed States from which the instruction is a legal transition
+ * @param action Name of the instruction, used in the error message
+ * @throws NosanaError with VALIDATION_ERROR code if the transition is illegal
+ */
+export function assertJobState(job: Job, allowed: JobState[], action: string): void {
+  if (!allowed.includes(job.state)) {
+    throw new NosanaError(
+      `Cannot ${action} job ${job.address} in state ${JobState[job.state]}, expected ${allowed
+        .map((state) => JobState[state])
+        .join(' or ')}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { job: job.address, state: job.state, allowed }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { type Address, type TransactionSigner, generateKeyPairSigner } from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import type { getWorkInstruction } from '../../../../generated_clients/jobs/index.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type WorkParams = {
+  market: Address;
+  nft?: Address;
+  metadata?: Address;
+  payer?: TransactionSigner;
+};
+
+export type WorkInstruction = ReturnType<typeof getWorkInstruction>;
+
+export type Work = (params: WorkParams) => Promise<WorkInstruction>;
+
+export async function work(
+  { market, nft, metadata, payer }: WorkParams,
+  { config, deps, client, getRequiredWallet, getStaticAccounts }: InstructionsHelperParams
+): Promise<WorkInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    // Use provided payer or fall back to wallet
+    const runPayer = payer ?? wallet;
+
+    // Generate new keypair for the run and derive the node's stake account
+    const [runKey, stake, { jobsProgram }] = await Promise.all([
+      generateKeyPairSigner(),
+      deps.solana.pda(['stake', config.nosTokenAddress, wallet.address], config.stakeAddress),
+      getStaticAccounts(),
+    ]);
+
+    // Create the work instruction
+    return client.getWorkInstruction(
+      {
+        run: runKey,
+        market,
+        payer: runPayer,
+        stake,
+        // Markets without a node access key accept the system program as placeholder
+        nft: nft ?? SYSTEM_PROGRAM_ADDRESS,
+        metadata: metadata ?? SYSTEM_PROGRAM_ADDRESS,
+        authority: wallet,
+      },
+      {
+        programAddress: jobsProgram,
+      }
+    );
+  } catch (err) {
+    const errorMessage = `Failed to create work instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -1,3 +1,5 @@
 export * from './types.js';
 export { createMonitorFunctions } from './monitor.js';
 export type { MonitorDeps } from './monitor.js';
+export { watch } from './watch.js';
+export type { Watch, WatchOptions } from './watch.js';
@@ -7,13 +7,42 @@ import type {
   AccountInfoBase,
   SolanaRpcResponse,
   AccountInfoWithPubkey,
+  GetProgramAccountsMemcmpFilter,
 } from '@solana/kit';
 import type { ProgramDeps } from '../../../../types.js';
 import type { ProgramConfig } from '../../../../config/types.js';
 import type { JobsProgram, Job, Market, Run } from '../JobsProgram.js';
 import { JobState } from '../JobsProgram.js';
 import * as programClient from '../../../../generated_clients/jobs/index.js';
-import { MonitorEventType, type MonitorEvent, type SimpleMonitorEvent } from './types.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import {
+  createMemcmpFilter,
+  DEFAULT_TRANSPORT_CONFIG,
+  getAccountFieldOffsets,
+  getReconnectOptions,
+  mergeAsyncIterables,
+  runMonitorConnection,
+  sleep,
+} from '../../../../utils/index.js';
+import {
+  MonitorEventType,
+  type MonitorEvent,
+  type MonitorFilters,
+  type MonitorOptions,
+  type SimpleMonitorEvent,
+} from './types.js';
+
+type ProgramNotification = SolanaRpcResponse<
+  AccountInfoWithPubkey<AccountInfoBase & AccountInfoWithBase64EncodedData>
+>;
+
+type SubscriptionFilters = {
+  accountType?: MonitorEventType;
+  filters?: GetProgramAccountsMemcmpFilter[];
+};
+
+// Maximum number of accounts per getMultipleAccounts request
+const BACKFILL_BATCH_SIZE = 100;
 
 export interface MonitorDeps {
   deps: ProgramDeps;
@@ -31,17 +60,14 @@ export interface MonitorDeps {
 async function setupSubscription(
   deps: ProgramDeps,
   programId: Address,
-  abortController: AbortController
-): Promise<
-  AsyncIterable<
-    SolanaRpcResponse<AccountInfoWithPubkey<AccountInfoBase & AccountInfoWithBase64EncodedData>>
-  >
-> {
+  abortSignal: AbortSignal,
+  filters?: GetProgramAccountsMemcmpFilter[]
+): Promise<AsyncIterable<ProgramNotification>> {
   try {
     // Set up the subscription using the correct API pattern
     const subscriptionIterable = await deps.solana.rpcSubscriptions
-      .programNotifications(programId, { encoding: 'base64' })
-      .subscribe({ abortSignal: abortController.signal });
+      .programNotifications(programId, { encoding: 'base64', ...(filters && { filters }) })
+      .subscribe({ abortSignal });
 
     return subscriptionIterable;
   } catch (error) {
@@ -49,6 +75,119 @@ async function setupSubscription(
   }
 }
 
+/**
+ * Translate monitor filters into one list of memcmp filters per subscription.
+ * A subscription can only match a single account layout, so every account type gets its own.
+ * Returns a single unfiltered subscription when no filters are given.
+ */
+function getSubscriptionFilters(
+  filters: MonitorFilters | undefined,
+  client: typeof programClient
+): SubscriptionFilters[] {
+  const { accountTypes, market, node, payer, project, state } = filters ?? {};
+  const hasJobFilters = [market, node, payer, project, state].some((value) => value !== undefined);
+  if (!accountTypes && !hasJobFilters) {
+    return [{}];
+  }
+
+  const types = new Set(accountTypes ?? Object.values(MonitorEventType));
+  const subscriptions: SubscriptionFilters[] = [];
+
+  if (types.has(MonitorEventType.JOB)) {
+    const offsets = getAccountFieldOffsets(client.getJobAccountDecoder());
+    const jobFilters = [createMemcmpFilter(0, client.JOB_ACCOUNT_DISCRIMINATOR)];
+    if (market) jobFilters.push(createMemcmpFilter(offsets.market, market));
+    if (node) jobFilters.push(createMemcmpFilter(offsets.node, node));
+    if (payer) jobFilters.push(createMemcmpFilter(offsets.payer, payer));
+    if (project) jobFilters.push(createMemcmpFilter(offsets.project, project));
+    // Running jobs are stored as queued, their state comes from the run account
+    if (state !== undefined && state !== JobState.RUNNING) {
+      jobFilters.push(createMemcmpFilter(offsets.state, new Uint8Array([state])));
+    }
+    subscriptions.push({ accountType: MonitorEventType.JOB, filters: jobFilters });
+  }
+
+  // Run accounts only exist for running jobs and don't hold the market, payer or project,
+  // those are matched after merging the run with its job.
+  // The payer of a run account is the node that paid its rent, not the poster of the job.
+  if (types.has(MonitorEventType.RUN) && (state === undefined || state === JobState.RUNNING)) {
+    const offsets = getAccountFieldOffsets(client.getRunAccountDecoder());
+    const runFilters = [createMemcmpFilter(0, client.RUN_ACCOUNT_DISCRIMINATOR)];
+    if (node) runFilters.push(createMemcmpFilter(offsets.node, node));
+    subscriptions.push({ accountType: MonitorEventType.RUN, filters: runFilters });
+  }
+
+  // Market accounts can only match on their own address, which isn't part of the account data
+  if (
+    types.has(MonitorEventType.MARKET) &&
+    [node, payer, project, state].every((value) => value === undefined)
+  ) {
+    subscriptions.push({
+      accountType: MonitorEventType.MARKET,
+      filters: [createMemcmpFilter(0, client.MARKET_ACCOUNT_DISCRIMINATOR)],
+    });
+  }
+
+  return subscriptions;
+}
+
+/**
+ * Check a job against the job fields of the monitor filters
+ */
+export function jobMatchesFilters(job: Job, filters: MonitorFilters): boolean {
+  return (
+    (filters.market === undefined || job.market === filters.market) &&
+    (filters.node === undefined || job.node === filters.node) &&
+    (filters.payer === undefined || job.payer === filters.payer) &&
+    (filters.project === undefined || job.project === filters.project) &&
+    (filters.state === undefined || job.state === filters.state)
+  );
+}
+
+/**
+ * Re-apply the monitor filters to an event, memcmp filters can't match merged or derived fields
+ */
+async function eventMatchesFilters(
+  event: MonitorEvent,
+  filters: MonitorFilters | undefined,
+  get: JobsProgram['get'],
+  monitorDeps: MonitorDeps
+): Promise<boolean> {
+  if (!filters) return true;
+
+  switch (event.type) {
+    case MonitorEventType.JOB:
+      return jobMatchesFilters(event.data, filters);
+    case MonitorEventType.MARKET:
+      return (
+        [filters.node, filters.payer, filters.project, filters.state].every(
+          (value) => value === undefined
+        ) &&
+        (filters.market === undefined || event.data.address === filters.market)
+      );
+    case MonitorEventType.RUN: {
+      const run = event.data;
+      if (filters.node !== undefined && run.node !== filters.node) return false;
+      if (
+        filters.market === undefined &&
+        filters.payer === undefined &&
+        filters.project === undefined
+      ) {
+        return filters.state === undefined || filters.state === JobState.RUNNING;
+      }
+      try {
+        const job = await get(run.job, false);
+        return jobMatchesFilters(monitorDeps.mergeRunIntoJob(job, run), filters);
+      } catch (error) {
+        monitorDeps.deps.logger.error(
+          `Error fetching job ${run.job} to filter run account ${run.address}: ${error}`
+        );
+        return false;
+      }
+    }
+  }
+}
+
 /**
  * Handle JobAccount updates
  */
@@ -126,20 +265,59 @@ async function handleRunAccount(
   }
 }
 
+/**
+ * Turn a program notification into a monitor event, or null when it doesn't match the filters
+ */
+async function handleNotification(
+  notification: ProgramNotification,
+  autoMerge: boolean,
+  filters: MonitorFilters | undefined,
+  get: JobsProgram['get'],
+  runs: JobsProgram['runs'],
+  monitorDeps: MonitorDeps
+): Promise<MonitorEvent | null> {
+  const { deps, client } = monitorDeps;
+  const { account, pubkey } = notification.value;
+  const encodedAccount: EncodedAccount = parseBase64RpcAccount(pubkey, account);
+  const accountType = client.identifyNosanaJobsAccount(encodedAccount);
+
+  let event: MonitorEvent | null = null;
+
+  switch (accountType) {
+    case client.NosanaJobsAccount.JobAccount:
+      event = await handleJobAccount(encodedAccount, autoMerge, runs, monitorDeps);
+      break;
+    case client.NosanaJobsAccount.MarketAccount:
+      event = handleMarketAccount(encodedAccount, monitorDeps);
+      break;
+    case client.NosanaJobsAccount.RunAccount:
+      event = await handleRunAccount(encodedAccount, autoMerge, get, monitorDeps);
+      break;
+    default:
+      deps.logger.error(`No support yet for account type: ${accountType}`);
+      break;
+  }
+
+  if (event && (await eventMatchesFilters(event, filters, get, monitorDeps))) {
+    return event;
+  }
+  return null;
+}
+
 /**
  * Create an async generator that yields monitor events from subscription notifications
  */
 async function* createEventStream(
-  subscriptionIterable: AsyncIterable<
-    SolanaRpcResponse<AccountInfoWithPubkey<AccountInfoBase & AccountInfoWithBase64EncodedData>>
-  >,
+  subscriptionIterable: AsyncIterable<ProgramNotification>,
   isMonitoring: () => boolean,
   autoMerge: boolean,
+  filters: MonitorFilters | undefined,
+  tracked: Map<Address, string> | null,
   get: JobsProgram['get'],
   runs: JobsProgram['runs'],
   monitorDeps: MonitorDeps
 ): AsyncGenerator<MonitorEvent, void, unknown> {
-  const { deps, client } = monitorDeps;
+  const { deps } = monitorDeps;
 
   try {
     for await (const notification of subscriptionIterable) {
@@ -150,28 +328,18 @@ async function* createEventStream(
       }
 
       try {
-        const { value } = notification;
-        const { account, pubkey } = value;
-        const encodedAccount: EncodedAccount = parseBase64RpcAccount(pubkey, account);
-        const accountType = client.identifyNosanaJobsAccount(encodedAccount);
-
-        let event: MonitorEvent | null = null;
-
-        switch (accountType) {
-          case client.NosanaJobsAccount.JobAccount:
-            event = await handleJobAccount(encodedAccount, autoMerge, runs, monitorDeps);
-            break;
-          case client.NosanaJobsAccount.MarketAccount:
-            event = handleMarketAccount(encodedAccount, monitorDeps);
-            break;
-          case client.NosanaJobsAccount.RunAccount:
-            event = await handleRunAccount(encodedAccount, autoMerge, get, monitorDeps);
-            break;
-          default:
-            deps.logger.error(`No support yet for account type: ${accountType}`);
-            break;
+        if (tracked) {
+          trackAccount(tracked, notification, monitorDeps);
         }
 
+        const event = await handleNotification(
+          notification,
+          autoMerge,
+          filters,
+          get,
+          runs,
+          monitorDeps
+        );
         if (event) {
           yield event;
         }
@@ -187,6 +355,288 @@ async function* createEventStream(
   }
 }
 
+/**
+ * Remember the data hash of an account to detect changes missed while disconnected.
+ * Closed accounts and jobs in a final state won't change anymore, so they are forgotten.
+ */
+function trackAccount(
+  tracked: Map<Address, string>,
+  notification: ProgramNotification,
+  monitorDeps: MonitorDeps
+): void {
+  const { client } = monitorDeps;
+  const { pubkey, account } = notification.value;
+  const encodedAccount: EncodedAccount = parseBase64RpcAccount(pubkey, account);
+
+  const isClosed = account.lamports === 0n || encodedAccount.data.length === 0;
+  const isFinal =
+    !isClosed &&
+    client.identifyNosanaJobsAccount(encodedAccount) === client.NosanaJobsAccount.JobAccount &&
+    client.decodeJobAccount(encodedAccount).data.state >= JobState.COMPLETED;
+
+  if (isClosed || isFinal) {
+    tracked.delete(pubkey);
+  } else {
+    tracked.set(pubkey, getDataHash(account.data[0]));
+  }
+}
+
+/**
+ * Fetch the run accounts matching the subscriptions, runs are the only accounts created
+ * by the program that a reconnect can't find through the tracked accounts
+ */
+async function fetchRunAccounts(
+  subscriptionFilters: SubscriptionFilters[],
+  monitorDeps: MonitorDeps
+): Promise<ProgramNotification[]> {
+  const { deps, config, client } = monitorDeps;
+  const runSubscription = subscriptionFilters.find(
+    ({ accountType }) => accountType === undefined || accountType === MonitorEventType.RUN
+  );
+  if (!runSubscription) {
+    return [];
+  }
+
+  const { context, value } = await deps.solana.rpc
+    .getProgramAccounts(config.jobsAddress, {
+      encoding: 'base64',
+      filters: runSubscription.filters ?? [createMemcmpFilter(0, client.RUN_ACCOUNT_DISCRIMINATOR)],
+      withContext: true,
+    })
+    .send();
+  return value.map(({ pubkey, account }) => ({ context, value: { pubkey, account } }));
+}
+
+/**
+ * Track the run accounts that exist when the monitor first connects,
+ * so a reconnect only backfills the runs created while disconnected
+ */
+async function seedTrackedRuns(
+  tracked: Map<Address, string>,
+  subscriptionFilters: SubscriptionFilters[],
+  monitorDeps: MonitorDeps
+): Promise<void> {
+  try {
+    const notifications = await fetchRunAccounts(subscriptionFilters, monitorDeps);
+    for (const notification of notifications) {
+      trackAccount(tracked, notification, monitorDeps);
+    }
+  } catch (error) {
+    monitorDeps.deps.logger.warn(`Error fetching the run accounts to track: ${error}`);
+  }
+}
+
+/**
+ * Re-fetch the tracked accounts and the run accounts matching the subscriptions after a reconnect.
+ * Yields synthetic update events for the tracked accounts whose data changed and the runs
+ * created while disconnected.
+ */
+async function* createBackfillStream(
+  tracked: Map<Address, string>,
+  subscriptionFilters: SubscriptionFilters[],
+  autoMerge: boolean,
+  filters: MonitorFilters | undefined,
+  get: JobsProgram['get'],
+  runs: JobsProgram['runs'],
+  monitorDeps: MonitorDeps
+): AsyncGenerator<MonitorEvent, void, unknown> {
+  const { deps } = monitorDeps;
+  const notifications: ProgramNotification[] = [];
+
+  try {
+    const addresses = [...tracked.keys()];
+    for (let i = 0; i < addresses.length; i += BACKFILL_BATCH_SIZE) {
+      const batch = addresses.slice(i, i + BACKFILL_BATCH_SIZE);
+      const { context, value } = await deps.solana.rpc
+        .getMultipleAccounts(batch, { encoding: 'base64' })
+        .send();
+      value.forEach((account, index) => {
+        if (account) {
+          notifications.push({ context, value: { pubkey: batch[index], account } });
+        } else {
+          // Closed accounts can't be decoded anymore
+          tracked.delete(batch[index]);
+        }
+      });
+    }
+
+    // Runs created while disconnected are new accounts, fetch the ones the subscriptions match
+    notifications.push(...(await fetchRunAccounts(subscriptionFilters, monitorDeps)));
+  } catch (error) {
+    deps.logger.error(`Error backfilling account updates after reconnect: ${error}`);
+    return;
+  }
+
+  deps.logger.info(`Backfilling ${notifications.length} accounts after reconnect`);
+
+  for (const notification of notifications) {
+    const { pubkey, account } = notification.value;
+    if (tracked.get(pubkey) === getDataHash(account.data[0])) continue;
+    trackAccount(tracked, notification, monitorDeps);
+
+    try {
+      const event = await handleNotification(
+        notification,
+        autoMerge,
+        filters,
+        get,
+        runs,
+        monitorDeps
+      );
+      if (event) {
+        yield event;
+      }
+    } catch (error) {
+      deps.logger.error(`Error handling backfilled account ${pubkey}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Get the getProgramAccounts filters polled for each subscription.
+ * Job accounts only change while queued, so unless the job state is filtered on,
+ * only queued jobs are polled and jobs leaving that set are re-fetched individually.
+ */
+function getPollingFilters(
+  subscriptionFilters: SubscriptionFilters[],
+  filters: MonitorFilters | undefined,
+  client: typeof programClient
+): GetProgramAccountsMemcmpFilter[][] {
+  const offsets = getAccountFieldOffsets(client.getJobAccountDecoder());
+  const queuedFilter = createMemcmpFilter(offsets.state, new Uint8Array([JobState.QUEUED]));
+  const hasStateFilter = filters?.state !== undefined && filters.state !== JobState.RUNNING;
+
+  return subscriptionFilters.flatMap(({ accountType, filters: memcmpFilters = [] }) => {
+    if (accountType === undefined) {
+      return [
+        [createMemcmpFilter(0, client.JOB_ACCOUNT_DISCRIMINATOR), queuedFilter],
+        [createMemcmpFilter(0, client.RUN_ACCOUNT_DISCRIMINATOR)],
+        [createMemcmpFilter(0, client.MARKET_ACCOUNT_DISCRIMINATOR)],
+      ];
+    }
+    if (accountType === MonitorEventType.JOB && !hasStateFilter) {
+      return [[...memcmpFilters, queuedFilter]];
+    }
+    return [memcmpFilters];
+  });
+}
+
+/**
+ * Hash base64 account data (FNV-1a), so polled accounts can be compared without keeping their data
+ */
+function getDataHash(data: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${data.length}:${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Poll the accounts matching the subscriptions over HTTP and yield events for the ones that changed.
+ * A poll is skipped when the RPC node hasn't advanced past the slot of the previous poll.
+ * The first poll only records the accounts, unless their data is known from an earlier WebSocket
+ * subscription, in which case the accounts that changed since are emitted.
+ */
+async function* createPollingStream(
+  subscriptionFilters: SubscriptionFilters[],
+  known: Map<Address, string> | null,
+  isMonitoring: () => boolean,
+  stopSignal: AbortSignal,
+  pollIntervalMs: number,
+  autoMerge: boolean,
+  filters: MonitorFilters | undefined,
+  get: JobsProgram['get'],
+  runs: JobsProgram['runs'],
+  monitorDeps: MonitorDeps
+): AsyncGenerator<MonitorEvent, void, unknown> {
+  const { deps, config, client } = monitorDeps;
+  const pollFilters = getPollingFilters(subscriptionFilters, filters, client);
+  const hashes = new Map<Address, string>();
+  let lastSlot: bigint | undefined;
+
+  while (isMonitoring()) {
+    const changed: ProgramNotification[] = [];
+
+    try {
+      const responses = await Promise.all(
+        pollFilters.map((memcmpFilters) =>
+          deps.solana.rpc
+            .getProgramAccounts(config.jobsAddress, {
+              encoding: 'base64',
+              filters: memcmpFilters,
+              withContext: true,
+              ...(lastSlot !== undefined && { minContextSlot: lastSlot }),
+            })
+            .send()
+        )
+      );
+      const slot = responses.reduce(
+        (min, { context }) => (context.slot < min ? context.slot : min),
+        responses[0].context.slot
+      );
+
+      if (lastSlot === undefined || slot > lastSlot) {
+        const polled = new Set<Address>();
+        for (const { context, value } of responses) {
+          for (const { pubkey, account } of value) {
+            const hash = getDataHash(account.data[0]);
+            const hasChanged =
+              lastSlot === undefined
+                ? known?.has(pubkey) && known.get(pubkey) !== hash
+                : hashes.get(pubkey) !== hash;
+            polled.add(pubkey);
+            hashes.set(pubkey, hash);
+            if (hasChanged) {
+              changed.push({ context, value: { pubkey, account } });
+            }
+          }
+        }
+
+        // Accounts that no longer match the filters changed state or were closed
+        const missing = [...hashes.keys()].filter((address) => !polled.has(address));
+        for (let i = 0; i < missing.length; i += BACKFILL_BATCH_SIZE) {
+          const batch = missing.slice(i, i + BACKFILL_BATCH_SIZE);
+          const { context, value } = await deps.solana.rpc
+            .getMultipleAccounts(batch, { encoding: 'base64' })
+            .send();
+          value.forEach((account, index) => {
+            hashes.delete(batch[index]);
+            if (account) {
+              changed.push({ context, value: { pubkey: batch[index], account } });
+            }
+          });
+        }
+
+        lastSlot = slot;
+      }
+    } catch (error) {
+      deps.logger.warn(`Polling program accounts failed: ${error}`);
+    }
+
+    for (const notification of changed) {
+      try {
+        const event = await handleNotification(
+          notification,
+          autoMerge,
+          filters,
+          get,
+          runs,
+          monitorDeps
+        );
+        if (event) {
+          yield event;
+        }
+      } catch (error) {
+        deps.logger.error(`Error handling polled account ${notification.value.pubkey}: ${error}`);
+      }
+    }
+
+    await sleep(pollIntervalMs, stopSignal);
+  }
+}
+
 /**
  * Internal helper to create a monitor stream
  */
@@ -194,75 +644,111 @@ async function createMonitorStream(
   get: JobsProgram['get'],
   runs: JobsProgram['runs'],
   autoMerge: true,
+  filters: MonitorFilters | undefined,
+  options: MonitorOptions,
   monitorDeps: MonitorDeps
 ): Promise<[AsyncIterable<SimpleMonitorEvent>, () => void]>;
 async function createMonitorStream(
   get: JobsProgram['get'],
   runs: JobsProgram['runs'],
   autoMerge: false,
+  filters: MonitorFilters | undefined,
+  options: MonitorOptions,
   monitorDeps: MonitorDeps
 ): Promise<[AsyncIterable<MonitorEvent>, () => void]>;
 async function createMonitorStream(
   get: JobsProgram['get'],
   runs: JobsProgram['runs'],
   autoMerge: boolean,
+  filters: MonitorFilters | undefined,
+  options: MonitorOptions,
   monitorDeps: MonitorDeps
 ): Promise<[AsyncIterable<SimpleMonitorEvent | MonitorEvent>, () => void]> {
-  const { deps, config } = monitorDeps;
+  const { deps, config, client } = monitorDeps;
   const programId = config.jobsAddress;
-  let abortController: AbortController | null = null;
+  const subscriptionFilters = getSubscriptionFilters(filters, client);
+  if (subscriptionFilters.length === 0) {
+    throw new NosanaError(
+      'Monitor filters exclude every account type',
+      ErrorCodes.VALIDATION_ERROR,
+      filters
+    );
+  }
+
+  const reconnect = getReconnectOptions(options.reconnect);
+  const tracked = options.backfill === false ? null : new Map<Address, string>();
+  const transport = { ...DEFAULT_TRANSPORT_CONFIG, ...deps.solana.config?.monitor };
+
+  const stopController = new AbortController();
   let isMonitoring = true;
 
   // Function to stop all monitoring
   const stopMonitoring = () => {
     isMonitoring = false;
-    if (abortController) {
-      abortController.abort();
-    }
+    stopController.abort();
     deps.logger.info(`Stopped monitoring job program account updates`);
   };
 
-  // Create async generator that handles reconnection
-  const eventStream = (async function* () {
-    while (isMonitoring) {
-      try {
-        deps.logger.info('Attempting to establish WebSocket subscription...');
-
-        abortController = new AbortController();
-        const subscriptionIterable = await setupSubscription(deps, programId, abortController);
+  const eventStream = runMonitorConnection<SimpleMonitorEvent | MonitorEvent>(
+    {
+      name: 'job program',
+      async *connect({ signal, hasConnected, onConnected }) {
+        const subscriptions = await Promise.all(
+          subscriptionFilters.map(({ filters: memcmpFilters }) =>
+            setupSubscription(deps, programId, signal, memcmpFilters)
+          )
+        );
+        onConnected();
 
-        deps.logger.info('Successfully established WebSocket subscription');
+        // Subscriptions buffer notifications while the gap is backfilled
+        if (hasConnected && tracked) {
+          yield* createBackfillStream(
+            tracked,
+            subscriptionFilters,
+            autoMerge,
+            filters,
+            get,
+            runs,
+            monitorDeps
+          );
+        } else if (tracked) {
+          await seedTrackedRuns(tracked, subscriptionFilters, monitorDeps);
+        }
 
         // Yield events from the subscription
         yield* createEventStream(
-          subscriptionIterable,
+          mergeAsyncIterables(subscriptions),
           () => isMonitoring,
           autoMerge,
+          filters,
+          tracked,
           get,
           runs,
           monitorDeps
         );
-      } catch (error) {
-        if (!isMonitoring) {
-          // Monitoring was stopped, exit gracefully
-          return;
-        }
-
-        deps.logger.warn(`WebSocket subscription failed: ${error}`);
-
-        // Clean up current subscription
-        if (abortController) {
-          abortController.abort();
-          abortController = null;
-        }
-
-        if (isMonitoring) {
-          deps.logger.info('Retrying WebSocket subscription in 5 seconds...');
-          await new Promise((resolve) => setTimeout(resolve, 5000));
-        }
-      }
+      },
+      poll: (hasConnected) =>
+        createPollingStream(
+          subscriptionFilters,
+          hasConnected ? tracked : null,
+          () => isMonitoring,
+          stopController.signal,
+          transport.pollIntervalMs,
+          autoMerge,
+          filters,
+          get,
+          runs,
+          monitorDeps
+        ),
+    },
+    {
+      reconnect,
+      transport,
+      signal: stopController.signal,
+      logger: deps.logger,
+      onConnectionStateChange: options.onConnectionStateChange,
     }
-  })();
+  );
 
   deps.logger.info(`Successfully started monitoring job program account updates`);
 
@@ -278,11 +764,17 @@ export function createMonitorFunctions(
   monitorDeps: MonitorDeps
 ) {
   return {
-    async monitor(): Promise<[AsyncIterable<SimpleMonitorEvent>, () => void]> {
-      return createMonitorStream(get, runs, true, monitorDeps);
+    async monitor(
+      filters?: MonitorFilters,
+      options: MonitorOptions = {}
+    ): Promise<[AsyncIterable<SimpleMonitorEvent>, () => void]> {
+      return createMonitorStream(get, runs, true, filters, options, monitorDeps);
     },
-    async monitorDetailed(): Promise<[AsyncIterable<MonitorEvent>, () => void]> {
-      return createMonitorStream(get, runs, false, monitorDeps);
+    async monitorDetailed(
+      filters?: MonitorFilters,
+      options: MonitorOptions = {}
+    ): Promise<[AsyncIterable<MonitorEvent>, () => void]> {
+      return createMonitorStream(get, runs, false, filters, options, monitorDeps);
     },
   };
 }
@@ -1,4 +1,9 @@
-import type { Job, Market, Run } from '../JobsProgram.js';
+import type { Address } from '@solana/kit';
+import type { MonitorConnectionEvent, MonitorReconnectOptions } from '../../../../config/types.js';
+import type { Job, JobState, Market, Run } from '../JobsProgram.js';
+
+export { MonitorConnectionState } from '../../../../config/types.js';
+export type { MonitorConnectionEvent, MonitorReconnectOptions };
 
 /**
  * Monitor event type constants
@@ -25,3 +30,40 @@ export type SimpleMonitorEvent =
  * @group @nosana/kit
  */
 export type MonitorEvent = SimpleMonitorEvent | { type: typeof MonitorEventType.RUN; data: Run };
+
+/**
+ * Filters for monitoring program account updates.
+ * Translated to memcmp filters on the subscription and re-applied to every emitted event.
+ * Job fields are matched on job events, including jobs merged with their run account.
+ * Market events only match the market filter, on the market address.
+ * @group @nosana/kit
+ */
+export type MonitorFilters = {
+  /**
+   * Account types to subscribe to, defaults to all of them.
+   * With monitor() run accounts are emitted as job events.
+   */
+  accountTypes?: MonitorEventType[];
+  market?: Address;
+  node?: Address;
+  payer?: Address;
+  project?: Address;
+  state?: JobState;
+};
+
+/**
+ * Options for monitoring program account updates
+ * @group @nosana/kit
+ */
+export type MonitorOptions = {
+  reconnect?: MonitorReconnectOptions;
+  /**
+   * Re-fetch the accounts seen so far and all run accounts after a reconnect, emitting update
+   * events for accounts that changed and runs created while disconnected (default: true)
+   */
+  backfill?: boolean;
+  /**
+   * Called whenever the subscription connects, disconnects or schedules a reconnect
+   */
+  onConnectionStateChange?: (event: MonitorConnectionEvent) => void;
+};
@@ -0,0 +1,205 @@
+import { parseBase64RpcAccount } from '@solana/kit';
+import type { Address } from '@solana/kit';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { createMemcmpFilter, getAccountFieldOffsets } from '../../../../utils/index.js';
+import { JobState, type Job, type JobsProgram, type Run } from '../JobsProgram.js';
+import type { MonitorDeps } from './monitor.js';
+
+/**
+ * Options for watching a single job
+ * @group @nosana/kit
+ */
+export type WatchOptions = {
+  /**
+   * Signal to stop watching, the iterator throws the abort reason
+   */
+  signal?: AbortSignal;
+};
+
+export type Watch = (job: Address, options?: WatchOptions) => AsyncIterable<Job>;
+
+type WatchUpdate =
+  | { type: 'job'; job: Job | null }
+  | { type: 'run'; run: Run }
+  | { type: 'runClosed'; run: Address };
+
+function isFinalState(state: JobState): boolean {
+  return state === JobState.COMPLETED || state === JobState.STOPPED;
+}
+
+/**
+ * Fingerprint of the job fields that change over its lifetime, to skip duplicate updates
+ */
+function getJobFingerprint(job: Job): string {
+  return [job.state, job.node, job.timeStart, job.timeEnd, job.timeout, job.ipfsResult].join(':');
+}
+
+/**
+ * Watch a single job until it is completed or stopped.
+ * Yields the current job first, then every change of the job account or its run account.
+ * The job account and the run account are followed with accountNotifications, and runs
+ * created later are picked up by a program subscription filtered on the job address.
+ */
+export async function* watch(
+  address: Address,
+  options: WatchOptions,
+  get: JobsProgram['get'],
+  runs: JobsProgram['runs'],
+  monitorDeps: MonitorDeps
+): AsyncGenerator<Job, void, unknown> {
+  const { deps, config, client, transformJobAccount, transformRunAccount, mergeRunIntoJob } =
+    monitorDeps;
+  const { signal } = options;
+  signal?.throwIfAborted();
+
+  const abortController = new AbortController();
+  const updates: WatchUpdate[] = [];
+  let failure: unknown;
+  let wake: (() => void) | undefined;
+
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+  const push = (update: WatchUpdate) => {
+    updates.push(update);
+    notify();
+  };
+  const fail = (error: unknown) => {
+    if (abortController.signal.aborted) return;
+    failure ??= error;
+    notify();
+  };
+  const onAbort = () => {
+    abortController.abort(signal?.reason);
+    notify();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // Forward notifications in the background, any failure ends the watch
+  const consume = async <T>(iterable: AsyncIterable<T>, handle: (notification: T) => void) => {
+    try {
+      for await (const notification of iterable) {
+        try {
+          handle(notification);
+        } catch (error) {
+          deps.logger.error(`Error handling notification for job ${address}: ${error}`);
+        }
+      }
+      fail(new Error('subscription closed'));
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const watchedRuns = new Set<Address>();
+  const watchRunAccount = async (run: Address) => {
+    if (watchedRuns.has(run)) return;
+    watchedRuns.add(run);
+    const notifications = await deps.solana.rpcSubscriptions
+      .accountNotifications(run, { encoding: 'base64' })
+      .subscribe({ abortSignal: abortController.signal });
+    void consume(notifications, ({ value }) => {
+      // Run accounts are closed when the node finishes or quits the job
+      if (value.lamports === 0n) {
+        push({ type: 'runClosed', run });
+      }
+    });
+  };
+
+  try {
+    const runOffsets = getAccountFieldOffsets(client.getRunAccountDecoder());
+
+    // Subscribe before fetching, so no update is lost in between
+    const [jobNotifications, runNotifications] = await Promise.all([
+      deps.solana.rpcSubscriptions
+        .accountNotifications(address, { encoding: 'base64' })
+        .subscribe({ abortSignal: abortController.signal }),
+      deps.solana.rpcSubscriptions
+        .programNotifications(config.jobsAddress, {
+          encoding: 'base64',
+          filters: [
+            createMemcmpFilter(0, client.RUN_ACCOUNT_DISCRIMINATOR),
+            createMemcmpFilter(runOffsets.job, address),
+          ],
+        })
+        .subscribe({ abortSignal: abortController.signal }),
+    ]);
+
+    void consume(jobNotifications, ({ value }) => {
+      if (value.lamports === 0n) {
+        push({ type: 'job', job: null });
+        return;
+      }
+      const jobAccount = client.decodeJobAccount(parseBase64RpcAccount(address, value));
+      push({ type: 'job', job: transformJobAccount(jobAccount) });
+    });
+    void consume(runNotifications, ({ value }) => {
+      const runAccount = client.decodeRunAccount(
+        parseBase64RpcAccount(value.pubkey, value.account)
+      );
+      push({ type: 'run', run: transformRunAccount(runAccount) });
+    });
+
+    const [initialJob, initialRuns] = await Promise.all([
+      get(address, false),
+      runs({ job: address }),
+    ]);
+    let job = initialJob;
+    let run: Run | null = initialRuns[0] ?? null;
+    if (run) {
+      await watchRunAccount(run.address);
+    }
+
+    const getCurrent = (): Job =>
+      run && job.state === JobState.QUEUED ? mergeRunIntoJob(job, run) : job;
+
+    let current = getCurrent();
+    let fingerprint = getJobFingerprint(current);
+    yield current;
+
+    while (!isFinalState(current.state)) {
+      signal?.throwIfAborted();
+
+      const update = updates.shift();
+      if (!update) {
+        if (failure) {
+          throw new NosanaError(
+            `Failed to watch job ${address}: ${failure instanceof Error ? failure.message : String(failure)}`,
+            ErrorCodes.RPC_ERROR,
+            { job: address }
+          );
+        }
+        await new Promise<void>((resolve) => (wake = resolve));
+        continue;
+      }
+
+      switch (update.type) {
+        case 'job':
+          if (!update.job) {
+            deps.logger.info(`Job ${address} was closed, stopped watching`);
+            return;
+          }
+          job = update.job;
+          break;
+        case 'run':
+          run = update.run;
+          await watchRunAccount(update.run.address);
+          break;
+        case 'runClosed':
+          if (run?.address === update.run) run = null;
+          break;
+      }
+
+      current = getCurrent();
+      const nextFingerprint = getJobFingerprint(current);
+      if (nextFingerprint !== fingerprint) {
+        fingerprint = nextFingerprint;
+        yield current;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    abortController.abort();
+  }
+}
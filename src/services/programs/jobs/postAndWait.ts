@@ -0,0 +1,165 @@
+import type { Signature } from '@solana/kit';
+import type { FlowState, JobDefinition } from '@nosana/types';
+import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
+import type { ProgramDeps } from '../../../types.js';
+import { JobState, type Job, type JobsProgram } from './JobsProgram.js';
+import type { PostParams } from './instructions/post.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 10_000;
+
+export type PostAndWaitParams = Omit<PostParams, 'ipfsHash'> & {
+  jobDefinition: JobDefinition;
+};
+
+export type PostAndWaitOptions = {
+  /**
+   * Maximum time to wait for the job to reach a final state once it is posted, in milliseconds
+   */
+  timeoutMs?: number;
+  /**
+   * Signal to stop waiting for the job
+   */
+  signal?: AbortSignal;
+  /**
+   * Called every time the observed state of the job changes
+   */
+  onStateChange?: (job: Job) => void;
+  /**
+   * Interval of the polling fallback, in milliseconds (default: 10000)
+   */
+  pollIntervalMs?: number;
+};
+
+export type PostAndWaitResult<TResult = FlowState> = {
+  job: Job;
+  result: TResult | null;
+  signature: Signature;
+};
+
+export type PostAndWait = <TResult = FlowState>(
+  params: PostAndWaitParams,
+  options?: PostAndWaitOptions
+) => Promise<PostAndWaitResult<TResult>>;
+
+export interface PostAndWaitHelperParams {
+  deps: ProgramDeps;
+  post: JobsProgram['post'];
+  get: JobsProgram['get'];
+  watch: JobsProgram['watch'];
+}
+
+function isFinalState(state: JobState): boolean {
+  return state === JobState.COMPLETED || state === JobState.STOPPED;
+}
+
+/**
+ * Wait until the job reaches a final state, watching the job and
+ * polling the job account as a fallback for missed or delayed notifications.
+ */
+function waitForFinalState(
+  jobAddress: Job['address'],
+  {
+    timeoutMs,
+    signal,
+    onStateChange,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  }: PostAndWaitOptions,
+  { deps, get, watch }: PostAndWaitHelperParams
+): Promise<Job> {
+  return new Promise<Job>((resolve, reject) => {
+    const watchController = new AbortController();
+    let settled = false;
+    let lastState: JobState | undefined;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearInterval(pollTimer);
+      clearTimeout(timeoutTimer);
+      signal?.removeEventListener('abort', onAbort);
+      watchController.abort();
+      fn();
+    };
+
+    const observe = (job: Job) => {
+      // Job states only move forward, ignore stale updates from a slower source
+      if (settled || (lastState !== undefined && job.state < lastState)) return;
+      if (job.state !== lastState) {
+        lastState = job.state;
+        onStateChange?.(job);
+      }
+      if (isFinalState(job.state)) {
+        settle(() => resolve(job));
+      }
+    };
+
+    const onAbort = () => settle(() => reject(signal?.reason));
+
+    const poll = async () => {
+      try {
+        observe(await get(jobAddress));
+      } catch (err) {
+        deps.logger.debug(`Failed to poll job ${jobAddress}: ${err}`);
+      }
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    if (timeoutMs !== undefined) {
+      timeoutTimer = setTimeout(() => {
+        settle(() =>
+          reject(
+            new NosanaError(
+              `Job ${jobAddress} did not finish within ${timeoutMs}ms`,
+              ErrorCodes.TIMEOUT,
+              { job: jobAddress, state: lastState }
+            )
+          )
+        );
+      }, timeoutMs);
+    }
+
+    pollTimer = setInterval(poll, pollIntervalMs);
+    void poll();
+
+    void (async () => {
+      try {
+        for await (const job of watch(jobAddress, { signal: watchController.signal })) {
+          observe(job);
+        }
+      } catch (err) {
+        if (settled) return;
+        deps.logger.warn(`Watching job ${jobAddress} failed, falling back to polling: ${err}`);
+      }
+    })();
+  });
+}
+
+export async function postAndWait<TResult = FlowState>(
+  { jobDefinition, ...postParams }: PostAndWaitParams,
+  options: PostAndWaitOptions,
+  helpers: PostAndWaitHelperParams
+): Promise<PostAndWaitResult<TResult>> {
+  const { deps, post } = helpers;
+
+  options.signal?.throwIfAborted();
+
+  const ipfsHash = await deps.ipfs.pin(jobDefinition);
+  const instruction = await post({ ...postParams, ipfsHash });
+  const jobAddress = instruction.accounts[0].address;
+
+  // The job account exists once the transaction is confirmed, watch fetches it before following updates
+  const signature = await deps.solana.buildSignAndSend(instruction);
+  deps.logger.info(`Posted job ${jobAddress}, waiting for it to finish`);
+
+  const job = await waitForFinalState(jobAddress, options, helpers);
+  const result: TResult | null = job.ipfsResult ? await deps.ipfs.retrieve(job.ipfsResult) : null;
+
+  return { job, result, signature };
+}
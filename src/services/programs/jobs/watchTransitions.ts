@@ -0,0 +1,252 @@
+import type { Address } from '@solana/kit';
+import type { ProgramDeps } from '../../../types.js';
+import { mergeAsyncIterables } from '../../../utils/index.js';
+import {
+  JobState,
+  MarketQueueType,
+  type Job,
+  type JobsProgram,
+  type Market,
+} from './JobsProgram.js';
+import {
+  MonitorEventType,
+  type MonitorFilters,
+  type MonitorOptions,
+  type SimpleMonitorEvent,
+} from './monitor/index.js';
+import { jobMatchesFilters } from './monitor/monitor.js';
+
+/**
+ * Job transition type constants
+ * @group @nosana/kit
+ */
+export const JobTransitionType = {
+  POSTED: 'JobPosted',
+  CLAIMED: 'JobClaimed',
+  STARTED: 'JobStarted',
+  COMPLETED: 'JobCompleted',
+  STOPPED: 'JobStopped',
+  EXTENDED: 'JobExtended',
+  DELISTED: 'JobDelisted',
+} as const;
+
+export type JobTransitionType = (typeof JobTransitionType)[keyof typeof JobTransitionType];
+
+/**
+ * A change of a job between two observed snapshots.
+ * `before` is null when the job didn't exist or wasn't open when the stream started,
+ * `after` is null once it is delisted.
+ * @group @nosana/kit
+ */
+export type JobTransitionEvent =
+  /** A queued job that didn't exist when the stream started */
+  | { type: typeof JobTransitionType.POSTED; job: Address; before: null; after: Job }
+  /** A node took a queued job, or another node took over after a quit */
+  | { type: typeof JobTransitionType.CLAIMED; job: Address; before: Job; after: Job }
+  /** A job seen for the first time while running, e.g. posted straight to a waiting node */
+  | { type: typeof JobTransitionType.STARTED; job: Address; before: null; after: Job }
+  | { type: typeof JobTransitionType.COMPLETED; job: Address; before: Job | null; after: Job }
+  | { type: typeof JobTransitionType.STOPPED; job: Address; before: Job | null; after: Job }
+  /** The timeout of the job was increased */
+  | { type: typeof JobTransitionType.EXTENDED; job: Address; before: Job; after: Job }
+  /** A queued job was removed from its market and its account closed */
+  | { type: typeof JobTransitionType.DELISTED; job: Address; before: Job; after: null };
+
+export type WatchTransitions = (
+  filters?: MonitorFilters,
+  options?: MonitorOptions
+) => Promise<[AsyncIterable<JobTransitionEvent>, () => void]>;
+
+export interface WatchTransitionsHelperParams {
+  deps: ProgramDeps;
+  monitor: JobsProgram['monitor'];
+  all: JobsProgram['all'];
+  market: JobsProgram['market'];
+  markets: JobsProgram['markets'];
+  /**
+   * Fetch a job merged with its run account, or null when the job account doesn't exist
+   */
+  fetchJob: (address: Address) => Promise<Job | null>;
+}
+
+function isFinalState(state: JobState): boolean {
+  return state === JobState.COMPLETED || state === JobState.STOPPED;
+}
+
+/**
+ * Check whether a monitor with these filters subscribes to market accounts,
+ * filters on job fields can't match a market so the monitor leaves markets out
+ */
+function includesMarkets(filters: MonitorFilters | undefined): boolean {
+  const { accountTypes, node, payer, project, state } = filters ?? {};
+  return (
+    (accountTypes === undefined || accountTypes.includes(MonitorEventType.MARKET)) &&
+    [node, payer, project, state].every((value) => value === undefined)
+  );
+}
+
+/**
+ * Compare two snapshots of a job and list the transitions between them
+ */
+function getJobTransitions(before: Job | null, after: Job): JobTransitionEvent[] {
+  const job = after.address;
+  const transitions: JobTransitionEvent[] = [];
+
+  if (!before) {
+    switch (after.state) {
+      case JobState.QUEUED:
+        return [{ type: JobTransitionType.POSTED, job, before, after }];
+      case JobState.RUNNING:
+        return [{ type: JobTransitionType.STARTED, job, before, after }];
+      case JobState.COMPLETED:
+        return [{ type: JobTransitionType.COMPLETED, job, before, after }];
+      case JobState.STOPPED:
+        return [{ type: JobTransitionType.STOPPED, job, before, after }];
+    }
+  }
+
+  if (BigInt(after.timeout) > BigInt(before.timeout)) {
+    transitions.push({ type: JobTransitionType.EXTENDED, job, before, after });
+  }
+
+  if (
+    after.state === JobState.RUNNING &&
+    (before.state === JobState.QUEUED || before.node !== after.node)
+  ) {
+    transitions.push({ type: JobTransitionType.CLAIMED, job, before, after });
+  } else if (after.state === JobState.COMPLETED && before.state !== JobState.COMPLETED) {
+    transitions.push({ type: JobTransitionType.COMPLETED, job, before, after });
+  } else if (after.state === JobState.STOPPED && before.state !== JobState.STOPPED) {
+    transitions.push({ type: JobTransitionType.STOPPED, job, before, after });
+  }
+
+  return transitions;
+}
+
+/**
+ * Turn the monitor stream into job transitions by keeping the previous snapshot of every job.
+ * The open jobs matching the filters and the market queues are fetched when the stream starts,
+ * so changes to jobs that already existed aren't reported as posted.
+ * Delisted job accounts are closed, so they are detected from the job queue of their market:
+ * a queued job that leaves the queue and no longer exists was delisted. The markets are
+ * always monitored for this, also when the filters on job fields leave them out.
+ */
+export async function watchTransitions(
+  filters: MonitorFilters | undefined,
+  options: MonitorOptions | undefined,
+  { deps, monitor, all, market: getMarket, markets, fetchJob }: WatchTransitionsHelperParams
+): Promise<[AsyncIterable<JobTransitionEvent>, () => void]> {
+  const [jobStream, stopJobs] = await monitor(filters, options);
+  const streams = [jobStream];
+  const stops = [stopJobs];
+
+  // Delists are only detected from the market queues, subscribe to the markets separately
+  // when the filters leave them out
+  if (!includesMarkets(filters)) {
+    try {
+      const [marketStream, stopMarkets] = await monitor(
+        { accountTypes: [MonitorEventType.MARKET], market: filters?.market },
+        options
+      );
+      streams.push(marketStream);
+      stops.push(stopMarkets);
+    } catch (error) {
+      stopJobs();
+      throw error;
+    }
+  }
+
+  const eventStream = mergeAsyncIterables(streams);
+  const stop = () => stops.forEach((stopMonitor) => stopMonitor());
+
+  // Last snapshot of every job that hasn't reached a final state
+  const jobs = new Map<Address, Job>();
+  // Last job queue of every market, to find jobs leaving the queue
+  const queues = new Map<Address, Set<Address>>();
+
+  function setQueue(market: Market): void {
+    if (market.queueType === MarketQueueType.JOB_QUEUE) {
+      queues.set(market.address, new Set(market.queue));
+    } else {
+      queues.delete(market.address);
+    }
+  }
+
+  // Jobs delisted before the first update of their market are only found from the initial queue
+  async function seedQueues(): Promise<void> {
+    try {
+      const seeded = filters?.market ? [await getMarket(filters.market)] : await markets();
+      seeded.forEach(setQueue);
+    } catch (error) {
+      deps.logger.error(`Error fetching the market queues to watch: ${error}`);
+    }
+  }
+
+  async function seedJobs(): Promise<void> {
+    const { market, payer, project, state } = filters ?? {};
+    if (state !== undefined && isFinalState(state)) return;
+
+    try {
+      // Running jobs are stored as queued without a node, their state and node come from
+      // the run account, so those are matched after merging
+      const openJobs = await all({ market, payer, project, state: JobState.QUEUED }, true);
+      for (const job of openJobs) {
+        if (jobMatchesFilters(job, filters ?? {})) {
+          jobs.set(job.address, job);
+        }
+      }
+    } catch (error) {
+      deps.logger.error(`Error fetching the open jobs to watch: ${error}`);
+    }
+  }
+
+  function* applySnapshot(address: Address, after: Job | null): Generator<JobTransitionEvent> {
+    const before = jobs.get(address) ?? null;
+
+    if (!after) {
+      if (before?.state === JobState.QUEUED) {
+        jobs.delete(address);
+        yield { type: JobTransitionType.DELISTED, job: address, before, after };
+      }
+      return;
+    }
+
+    // Jobs fetched after leaving a queue can stop matching the filters, stop tracking those
+    if (isFinalState(after.state) || !jobMatchesFilters(after, filters ?? {})) {
+      jobs.delete(address);
+    } else {
+      jobs.set(address, after);
+    }
+    yield* getJobTransitions(before, after);
+  }
+
+  async function* handleEvent(event: SimpleMonitorEvent): AsyncGenerator<JobTransitionEvent> {
+    if (event.type === MonitorEventType.JOB) {
+      yield* applySnapshot(event.data.address, event.data);
+      return;
+    }
+
+    const market = event.data;
+    const previousQueue = queues.get(market.address);
+    setQueue(market);
+    const queue = queues.get(market.address) ?? new Set<Address>();
+
+    for (const address of previousQueue ?? []) {
+      if (queue.has(address) || jobs.get(address)?.state !== JobState.QUEUED) continue;
+      try {
+        yield* applySnapshot(address, await fetchJob(address));
+      } catch (error) {
+        deps.logger.error(`Error fetching job ${address} after it left the queue: ${error}`);
+      }
+    }
+  }
+
+  const transitionStream = (async function* () {
+    await Promise.all([seedJobs(), seedQueues()]);
+    for await (const event of eventStream) {
+      yield* handleEvent(event);
+    }
+  })();
+
+  return [transitionStream, stop];
+}
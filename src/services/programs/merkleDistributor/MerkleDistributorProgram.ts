@@ -1,6 +1,10 @@
 import {
   Address,
   Account,
+  getAddressEncoder,
+  getProgramDerivedAddress,
+  getU64Encoder,
+  getUtf8Encoder,
   parseBase64RpcAccount,
   Base58EncodedBytes,
   ReadonlyUint8Array,
@@ -8,12 +12,18 @@ import {
   TransactionSigner,
 } from '@solana/kit';
 import { NosanaError, ErrorCodes } from '../../../errors/NosanaError.js';
-import type { ProgramDeps } from '../../../types.js';
+import type { ProgramDeps, Wallet } from '../../../types.js';
 import * as programClient from '../../../generated_clients/merkle_distributor/index.js';
 import { convertBigIntToNumber, ConvertTypesForDb } from '../../../utils/index.js';
 import { findAssociatedTokenPda, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
 import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
 import bs58 from 'bs58';
+import { verifyMerkleProof } from './merkle.js';
+import type { MerkleProofBundle } from './bundle.js';
+import * as Instructions from './instructions/index.js';
+import { getDistributorStats, type GetMerkleDistributorStats } from './stats.js';
+import { getVestingSchedule, type GetVestingSchedule } from './vesting.js';
+import type { InstructionsHelperParams } from './instructions/types.js';
 
 /**
  * Claim target enum for merkle distributor.
@@ -63,6 +73,11 @@ export interface MerkleDistributorProgram {
    */
   getClaimStatusPda(distributor: Address, claimant?: Address): Promise<Address>;
 
+  /**
+   * Derive the MerkleDistributor PDA address of a mint and distribution version.
+   */
+  getDistributorPda(mint: Address, version: number | bigint): Promise<Address>;
+
   /**
    * Fetch a merkle distributor account by address
    */
@@ -102,6 +117,28 @@ export interface MerkleDistributorProgram {
     target: ClaimTarget;
     claimant?: TransactionSigner;
   }): Promise<ReturnType<typeof programClient.getNewClaimInstruction>>;
+
+  /**
+   * Claim tokens from a merkle distributor with the amounts and proof of the claimant
+   * in a proof bundle.
+   *
+   * @example
+   * ```ts
+   * const bundle = readProofBundle(await readFile('bundle.json', 'utf8'));
+   * const instruction = await merkleDistributor.claimFromBundle({
+   *   bundle,
+   *   distributor: 'distributor-address',
+   *   target: ClaimTarget.YES,
+   * });
+   * ```
+   */
+  claimFromBundle(params: {
+    bundle: MerkleProofBundle;
+    distributor: Address;
+    target: ClaimTarget;
+    claimant?: TransactionSigner;
+  }): Promise<ReturnType<typeof programClient.getNewClaimInstruction>>;
+
   /**
    * Clawback tokens from a merkle distributor.
    */
@@ -109,6 +146,90 @@ export interface MerkleDistributorProgram {
     distributor: Address;
     claimant?: TransactionSigner;
   }): Promise<ReturnType<typeof programClient.getClawbackInstruction>>;
+
+  /**
+   * Create a distributor for a mint and version with the wallet as admin, together with its
+   * token vault. Fund the vault with `maxTotalClaim` tokens before claims open.
+   *
+   * @example
+   * ```ts
+   * const tree = await buildMerkleTree(recipients);
+   * const instructions = await merkleDistributor.newDistributor({
+   *   ...tree,
+   *   mint: 'mint-address',
+   *   version: 0,
+   *   startTs: 1767225600,
+   *   endTs: 1798761600,
+   *   clawbackStartTs: 1798848000,
+   *   clawbackReceiver: 'clawback-token-account',
+   * });
+   * await client.solana.buildSignAndSend(instructions);
+   * ```
+   */
+  newDistributor: Instructions.NewDistributor;
+
+  /**
+   * Transfer the admin of a distributor. The wallet must be the current admin.
+   */
+  setAdmin: Instructions.SetAdmin;
+
+  /**
+   * Change the token account clawed back tokens go to. The wallet must be the admin.
+   */
+  setClawbackReceiver: Instructions.SetClawbackReceiver;
+
+  /**
+   * Change the slot from which claims are accepted. The wallet must be the admin.
+   */
+  setEnableSlot: Instructions.SetEnableSlot;
+
+  /**
+   * Close a closable distributor and return the tokens left in its vault. The wallet must be the admin.
+   */
+  closeDistributor: Instructions.CloseDistributor;
+
+  /**
+   * Withdraw the locked tokens of the claimant that vested since the last withdrawal.
+   * Refuses to build the instruction when nothing can be withdrawn.
+   *
+   * @example
+   * ```ts
+   * const instruction = await merkleDistributor.claimLocked({
+   *   distributor: 'distributor-address',
+   *   target: ClaimTarget.YES,
+   * });
+   * ```
+   */
+  claimLocked: Instructions.ClaimLocked;
+
+  /**
+   * Close the closable claim status of a claimant and return its rent to them. The wallet must be the admin.
+   */
+  closeClaimStatus: Instructions.CloseClaimStatus;
+
+  /**
+   * Claim progress of a distributor, time until its clawback and how much of the locked amounts vested
+   *
+   * @example
+   * ```ts
+   * const stats = await merkleDistributor.stats('distributor-address');
+   * console.log(`${stats.claimedPercentage}% claimed by ${stats.numNodesClaimed} claimants`);
+   * ```
+   */
+  stats: GetMerkleDistributorStats;
+
+  /**
+   * Project per day how the locked amount of a claim status vests until the end of the vesting
+   *
+   * @example
+   * ```ts
+   * const claimStatus = await merkleDistributor.getClaimStatusForDistributor('distributor-address');
+   * if (claimStatus) {
+   *   const schedule = await merkleDistributor.vestingSchedule(claimStatus);
+   * }
+   * ```
+   */
+  vestingSchedule: GetVestingSchedule;
 }
 
 /**
@@ -180,6 +301,42 @@ export function createMerkleDistributorProgram(
     };
   }
 
+  function getRequiredWallet(): Wallet {
+    const wallet = deps.getWallet();
+    if (!wallet) {
+      throw new NosanaError('Wallet is required for this operation', ErrorCodes.NO_WALLET);
+    }
+    return wallet;
+  }
+
+  /**
+   * Derive the distributor PDA from the mint and the version as a little-endian u64
+   */
+  async function getDistributorPda(mint: Address, version: number | bigint): Promise<Address> {
+    const [pda] = await getProgramDerivedAddress({
+      programAddress: programId,
+      seeds: [
+        getUtf8Encoder().encode('MerkleDistributor'),
+        getAddressEncoder().encode(mint),
+        getU64Encoder().encode(version),
+      ],
+    });
+    return pda;
+  }
+
+  function createInstructionsHelper(program: MerkleDistributorProgram): InstructionsHelperParams {
+    return {
+      deps,
+      config,
+      client,
+      get: program.get,
+      // Bound, as it derives the claim status PDA through the program
+      getClaimStatusForDistributor: program.getClaimStatusForDistributor.bind(program),
+      getRequiredWallet,
+      getDistributorPda,
+    };
+  }
+
   return {
     /**
      * Derive the ClaimStatus PDA address for a given distributor and optional claimant.
@@ -206,6 +363,8 @@ export function createMerkleDistributorProgram(
       return await deps.solana.pda(['ClaimStatus', claimantAddress, distributor], programId);
     },
 
+    getDistributorPda,
+
     /**
      * Fetch a merkle distributor account by address
      */
@@ -461,6 +620,66 @@ export function createMerkleDistributorProgram(
         throw err;
       }
     },
+    /**
+     * Claim tokens from a merkle distributor with the amounts and proof of the claimant
+     * in a proof bundle. The bundle must match the root and version of the distributor
+     * and the proof is verified locally before the instruction is created.
+     *
+     * @param params Parameters for claiming tokens
+     * @param params.bundle Proof bundle loaded with readProofBundle
+     * @param params.claimant Optional claimant signer. If not provided, uses the wallet.
+     * @returns The newClaim instruction
+     * @throws NosanaError if the claimant is not in the bundle, the bundle does not belong to
+     * the distributor, the proof is invalid or tokens have already been claimed
+     * @throws Error if wallet is not set and claimant is not provided
+     */
+    async claimFromBundle(params: {
+      bundle: MerkleProofBundle;
+      distributor: Address;
+      target: ClaimTarget;
+      claimant?: TransactionSigner;
+    }): Promise<ReturnType<typeof programClient.getNewClaimInstruction>> {
+      const claimantAddress = params.claimant?.address ?? deps.getWallet()?.address;
+      if (!claimantAddress) {
+        throw new Error('Wallet not set. Please set a wallet or provide a claimant signer.');
+      }
+
+      const claim = params.bundle.getClaim(claimantAddress);
+      if (!claim) {
+        throw new NosanaError(
+          `Claimant ${claimantAddress} is not in the proof bundle`,
+          ErrorCodes.VALIDATION_ERROR,
+          { claimant: claimantAddress }
+        );
+      }
+
+      const distributor = await this.get(params.distributor);
+      const root = bs58.encode(params.bundle.root);
+      if (distributor.root !== root || BigInt(distributor.version) !== params.bundle.version) {
+        throw new NosanaError(
+          `Proof bundle with root ${root} and version ${params.bundle.version} does not belong to distributor ${params.distributor}`,
+          ErrorCodes.VALIDATION_ERROR,
+          { distributor: params.distributor, root, version: params.bundle.version }
+        );
+      }
+
+      if (!(await verifyMerkleProof({ root: params.bundle.root, ...claim }))) {
+        throw new NosanaError(
+          `Proof of claimant ${claimantAddress} does not match the proof bundle root`,
+          ErrorCodes.VALIDATION_ERROR,
+          { claimant: claimantAddress }
+        );
+      }
+
+      return await this.claim({
+        distributor: params.distributor,
+        amountUnlocked: claim.amountUnlocked,
+        amountLocked: claim.amountLocked,
+        proof: claim.proof,
+        target: params.target,
+        claimant: params.claimant,
+      });
+    },
     /**
      * Clawback tokens from a merkle distributor.
      * This function creates a clawback instruction to transfer tokens from the distributor's token vault to the clawback receiver.
@@ -514,5 +733,40 @@ export function createMerkleDistributorProgram(
         throw err;
       }
     },
+    async newDistributor(params) {
+      return Instructions.newDistributor(params, createInstructionsHelper(this));
+    },
+    async setAdmin(params) {
+      return Instructions.setAdmin(params, createInstructionsHelper(this));
+    },
+    async setClawbackReceiver(params) {
+      return Instructions.setClawbackReceiver(params, createInstructionsHelper(this));
+    },
+    async setEnableSlot(params) {
+      return Instructions.setEnableSlot(params, createInstructionsHelper(this));
+    },
+    async closeDistributor(params) {
+      return Instructions.closeDistributor(params, createInstructionsHelper(this));
+    },
+    async claimLocked(params) {
+      return Instructions.claimLocked(params, createInstructionsHelper(this));
+    },
+    async closeClaimStatus(params) {
+      return Instructions.closeClaimStatus(params, createInstructionsHelper(this));
+    },
+    /**
+     * Claim progress and vesting state of a distributor, fetched unless an account is given
+     */
+    async stats(distributor) {
+      return getDistributorStats(
+        typeof distributor === 'string' ? await this.get(distributor) : distributor
+      );
+    },
+    /**
+     * Vesting schedule of a claim status with the schedule of its distributor
+     */
+    async vestingSchedule(claimStatus, options) {
+      return getVestingSchedule(claimStatus, await this.get(claimStatus.distributor), options);
+    },
   };
 }
@@ -0,0 +1,134 @@
+import type { Address } from '@solana/kit';
+import bs58 from 'bs58';
+import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
+import { U64_MAX, type MerkleClaim, type MerkleTree } from './merkle.js';
+import { parseRecipient } from './recipients.js';
+
+const HASH_LENGTH = 32;
+
+/**
+ * A merkle tree with the distributor version it is deployed under, as loaded from a proof bundle
+ */
+export type MerkleProofBundle = MerkleTree & {
+  version: bigint;
+};
+
+/**
+ * JSON layout of a proof bundle. Hashes are base58 and u64 values are strings so they
+ * survive JSON parsing.
+ */
+export type MerkleProofBundleJson = {
+  version: string;
+  root: string;
+  maxTotalClaim: string;
+  maxNumNodes: string;
+  claims: Array<{
+    claimant: string;
+    amountUnlocked: string;
+    amountLocked: string;
+    proof: string[];
+  }>;
+};
+
+export type WriteProofBundle = (tree: MerkleTree, version: number | bigint) => string;
+
+export type ReadProofBundle = (contents: string) => MerkleProofBundle;
+
+function parseHash(value: unknown, location: string): Uint8Array {
+  let hash: Uint8Array | undefined;
+  try {
+    hash = typeof value === 'string' ? bs58.decode(value) : undefined;
+  } catch {
+    hash = undefined;
+  }
+  if (hash?.length !== HASH_LENGTH) {
+    throw new NosanaError(
+      `${location} of the proof bundle is not a base58 encoded 32 byte hash`,
+      ErrorCodes.FILE_ERROR,
+      { value }
+    );
+  }
+  return hash;
+}
+
+function parseU64(value: unknown, name: string): bigint {
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || BigInt(value) > U64_MAX) {
+    throw new NosanaError(
+      `${name} of the proof bundle must be an unsigned 64-bit integer string`,
+      ErrorCodes.FILE_ERROR,
+      { [name]: value }
+    );
+  }
+  return BigInt(value);
+}
+
+/**
+ * Serialize a merkle tree and the distributor version it is deployed under to proof bundle JSON
+ */
+export function writeProofBundle(tree: MerkleTree, version: number | bigint): string {
+  const bundle: MerkleProofBundleJson = {
+    version: BigInt(version).toString(),
+    root: bs58.encode(tree.root),
+    maxTotalClaim: tree.maxTotalClaim.toString(),
+    maxNumNodes: tree.maxNumNodes.toString(),
+    claims: tree.claims.map(({ claimant, amountUnlocked, amountLocked, proof }) => ({
+      claimant,
+      amountUnlocked: amountUnlocked.toString(),
+      amountLocked: amountLocked.toString(),
+      proof: proof.map((hash) => bs58.encode(hash)),
+    })),
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Load proof bundle JSON written by `writeProofBundle`
+ *
+ * @throws NosanaError with FILE_ERROR code if the JSON does not have the proof bundle layout
+ * @throws NosanaError with VALIDATION_ERROR code if a claimant is invalid or duplicated or an
+ * amount is not a u64
+ */
+export function readProofBundle(contents: string): MerkleProofBundle {
+  let bundle: Partial<MerkleProofBundleJson>;
+  try {
+    bundle = JSON.parse(contents);
+  } catch (err) {
+    throw new NosanaError('Proof bundle JSON could not be parsed', ErrorCodes.FILE_ERROR, err);
+  }
+  if (typeof bundle !== 'object' || bundle === null || !Array.isArray(bundle.claims)) {
+    throw new NosanaError('Proof bundle must be an object with claims', ErrorCodes.FILE_ERROR);
+  }
+
+  const seen = new Map<Address, string>();
+  const indexes = new Map<Address, number>();
+  const claims: MerkleClaim[] = bundle.claims.map((entry, index) => {
+    const location = `claim ${index}`;
+    if (typeof entry !== 'object' || entry === null || !Array.isArray(entry.proof)) {
+      throw new NosanaError(
+        `${location} of the proof bundle must be an object with a proof`,
+        ErrorCodes.FILE_ERROR,
+        { entry }
+      );
+    }
+    const { claimant, amountUnlocked, amountLocked } = parseRecipient(entry, location, seen);
+    indexes.set(claimant, index);
+    return {
+      claimant,
+      amountUnlocked: BigInt(amountUnlocked),
+      amountLocked: BigInt(amountLocked),
+      proof: entry.proof.map((hash, i) => parseHash(hash, `Proof ${i} of ${location}`)),
+    };
+  });
+
+  return {
+    version: parseU64(bundle.version, 'version'),
+    root: parseHash(bundle.root, 'Root'),
+    maxTotalClaim: parseU64(bundle.maxTotalClaim, 'maxTotalClaim'),
+    maxNumNodes: parseU64(bundle.maxNumNodes, 'maxNumNodes'),
+    claims,
+    getClaim(claimant: Address): MerkleClaim | null {
+      const index = indexes.get(claimant);
+      return index === undefined ? null : claims[index];
+    },
+  };
+}
@@ -1 +1,6 @@
 export * from './MerkleDistributorProgram.js';
+export * from './merkle.js';
+export * from './recipients.js';
+export * from './bundle.js';
+export * from './vesting.js';
+export * from './stats.js';
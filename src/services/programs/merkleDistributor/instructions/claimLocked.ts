@@ -0,0 +1,95 @@
+import type { Address, TransactionSigner } from '@solana/kit';
+import { TOKEN_PROGRAM_ADDRESS, findAssociatedTokenPda } from '@solana-program/token';
+import type { getClaimLockedInstruction } from '../../../../generated_clients/merkle_distributor/index.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { ALLOWED_RECEIVE_ADDRESSES, type ClaimTarget } from '../MerkleDistributorProgram.js';
+import { getWithdrawableLockedAmount } from '../vesting.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type ClaimLockedParams = {
+  distributor: Address;
+  /**
+   * Address whose token account receives the tokens, as for `claim`
+   */
+  target: ClaimTarget;
+  /**
+   * Claimant signer, defaults to the wallet
+   */
+  claimant?: TransactionSigner;
+};
+
+export type ClaimLockedInstruction = ReturnType<typeof getClaimLockedInstruction>;
+
+export type ClaimLocked = (params: ClaimLockedParams) => Promise<ClaimLockedInstruction>;
+
+export async function claimLocked(
+  { distributor, target, claimant }: ClaimLockedParams,
+  {
+    config,
+    deps,
+    client,
+    get,
+    getClaimStatusForDistributor,
+    getRequiredWallet,
+  }: InstructionsHelperParams
+): Promise<ClaimLockedInstruction> {
+  try {
+    const signer = claimant ?? getRequiredWallet();
+    const [current, claimStatus] = await Promise.all([
+      get(distributor),
+      getClaimStatusForDistributor(distributor, signer.address),
+    ]);
+    if (!claimStatus) {
+      throw new NosanaError(
+        `${signer.address} has not claimed from distributor ${distributor}, claim first`,
+        ErrorCodes.VALIDATION_ERROR,
+        { distributor, claimant: signer.address }
+      );
+    }
+    if (current.clawedBack) {
+      throw new NosanaError(
+        `Cannot claim locked tokens, distributor ${distributor} has been clawed back`,
+        ErrorCodes.VALIDATION_ERROR,
+        { distributor }
+      );
+    }
+
+    // The program rejects a claim of nothing, so fail before a transaction is sent
+    if (getWithdrawableLockedAmount(claimStatus, current) === 0n) {
+      const reason =
+        BigInt(claimStatus.lockedAmountWithdrawn) >= BigInt(claimStatus.lockedAmount)
+          ? 'all locked tokens have been withdrawn'
+          : `nothing has vested since the last withdrawal, vesting runs from ${new Date(Number(current.startTs) * 1000).toISOString()} to ${new Date(Number(current.endTs) * 1000).toISOString()}`;
+      throw new NosanaError(
+        `No locked tokens to claim from distributor ${distributor}, ${reason}`,
+        ErrorCodes.VALIDATION_ERROR,
+        { distributor, claimant: signer.address }
+      );
+    }
+
+    const [to] = await findAssociatedTokenPda({
+      mint: current.mint,
+      owner: ALLOWED_RECEIVE_ADDRESSES[target],
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    });
+
+    return client.getClaimLockedInstruction(
+      {
+        distributor,
+        claimStatus: claimStatus.address,
+        from: current.tokenVault,
+        to,
+        claimant: signer,
+        tokenProgram: TOKEN_PROGRAM_ADDRESS,
+      },
+      {
+        programAddress: config.merkleDistributorAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create claimLocked instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,71 @@
+import type { Address } from '@solana/kit';
+import type { getCloseClaimStatusInstruction } from '../../../../generated_clients/merkle_distributor/index.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { assertDistributorAdmin } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type CloseClaimStatusParams = {
+  distributor: Address;
+  /**
+   * Claimant whose claim status is closed, the rent is returned to them
+   */
+  claimant: Address;
+};
+
+export type CloseClaimStatusInstruction = ReturnType<typeof getCloseClaimStatusInstruction>;
+
+export type CloseClaimStatus = (
+  params: CloseClaimStatusParams
+) => Promise<CloseClaimStatusInstruction>;
+
+export async function closeClaimStatus(
+  { distributor, claimant }: CloseClaimStatusParams,
+  {
+    config,
+    deps,
+    client,
+    get,
+    getClaimStatusForDistributor,
+    getRequiredWallet,
+  }: InstructionsHelperParams
+): Promise<CloseClaimStatusInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const [current, claimStatus] = await Promise.all([
+      get(distributor),
+      getClaimStatusForDistributor(distributor, claimant),
+    ]);
+    assertDistributorAdmin(current, wallet.address, 'close claim status');
+    if (!claimStatus) {
+      throw new NosanaError(
+        `${claimant} has no claim status for distributor ${distributor}`,
+        ErrorCodes.VALIDATION_ERROR,
+        { distributor, claimant }
+      );
+    }
+    if (!claimStatus.closable) {
+      throw new NosanaError(
+        `Claim status ${claimStatus.address} was not created as closable`,
+        ErrorCodes.VALIDATION_ERROR,
+        { claimStatus: claimStatus.address }
+      );
+    }
+
+    return client.getCloseClaimStatusInstruction(
+      {
+        claimStatus: claimStatus.address,
+        claimant,
+        admin: wallet,
+        distributor,
+      },
+      {
+        programAddress: config.merkleDistributorAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create closeClaimStatus instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,67 @@
+import type { Address } from '@solana/kit';
+import { TOKEN_PROGRAM_ADDRESS, findAssociatedTokenPda } from '@solana-program/token';
+import type { getCloseDistributorInstruction } from '../../../../generated_clients/merkle_distributor/index.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { assertDistributorAdmin } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type CloseDistributorParams = {
+  distributor: Address;
+  /**
+   * Token account that receives the tokens left in the vault, defaults to the wallet's
+   * associated token account of the distributor mint
+   */
+  destination?: Address;
+};
+
+export type CloseDistributorInstruction = ReturnType<typeof getCloseDistributorInstruction>;
+
+export type CloseDistributor = (
+  params: CloseDistributorParams
+) => Promise<CloseDistributorInstruction>;
+
+export async function closeDistributor(
+  { distributor, destination }: CloseDistributorParams,
+  { config, deps, client, get, getRequiredWallet }: InstructionsHelperParams
+): Promise<CloseDistributorInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const current = await get(distributor);
+    assertDistributorAdmin(current, wallet.address, 'close distributor');
+    if (!current.closable) {
+      throw new NosanaError(
+        `Distributor ${distributor} was not created as closable`,
+        ErrorCodes.VALIDATION_ERROR,
+        { distributor }
+      );
+    }
+
+    const destinationTokenAccount =
+      destination ??
+      (
+        await findAssociatedTokenPda({
+          mint: current.mint,
+          owner: wallet.address,
+          tokenProgram: TOKEN_PROGRAM_ADDRESS,
+        })
+      )[0];
+
+    return client.getCloseDistributorInstruction(
+      {
+        distributor,
+        tokenVault: current.tokenVault,
+        admin: wallet,
+        destinationTokenAccount,
+        tokenProgram: TOKEN_PROGRAM_ADDRESS,
+      },
+      {
+        programAddress: config.merkleDistributorAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create closeDistributor instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
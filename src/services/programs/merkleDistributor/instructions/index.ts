@@ -0,0 +1,7 @@
+export * from './claimLocked.js';
+export * from './closeClaimStatus.js';
+export * from './closeDistributor.js';
+export * from './newDistributor.js';
+export * from './setAdmin.js';
+export * from './setClawbackReceiver.js';
+export * from './setEnableSlot.js';
@@ -0,0 +1,153 @@
+import type { Address, ReadonlyUint8Array } from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+  findAssociatedTokenPda,
+  getCreateAssociatedTokenIdempotentInstruction,
+} from '@solana-program/token';
+import bs58 from 'bs58';
+import type { getNewDistributorInstruction } from '../../../../generated_clients/merkle_distributor/index.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { assertVestingSchedule } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type NewDistributorParams = {
+  /**
+   * Mint of the distributed token
+   */
+  mint: Address;
+  /**
+   * Version of the distribution, a mint can have one distributor per version
+   */
+  version: number | bigint;
+  /**
+   * Merkle root as bytes or base58
+   */
+  root: ReadonlyUint8Array | string;
+  /**
+   * Sum of all claims in token base units
+   */
+  maxTotalClaim: number | bigint;
+  /**
+   * Number of claimants
+   */
+  maxNumNodes: number | bigint;
+  /**
+   * Unix timestamp at which locked amounts start vesting
+   */
+  startTs: number | bigint;
+  /**
+   * Unix timestamp at which locked amounts are fully vested
+   */
+  endTs: number | bigint;
+  /**
+   * Unix timestamp from which unclaimed tokens can be clawed back
+   */
+  clawbackStartTs: number | bigint;
+  /**
+   * Token account that receives clawed back tokens
+   */
+  clawbackReceiver: Address;
+  /**
+   * Slot from which claims are accepted, defaults to 0
+   */
+  enableSlot?: number | bigint;
+  /**
+   * Whether the admin can close the distributor, defaults to false
+   */
+  closable?: boolean;
+};
+
+export type NewDistributorInstructions = [
+  ReturnType<typeof getCreateAssociatedTokenIdempotentInstruction>,
+  ReturnType<typeof getNewDistributorInstruction>,
+];
+
+export type NewDistributor = (params: NewDistributorParams) => Promise<NewDistributorInstructions>;
+
+/**
+ * Create the token vault of the distributor PDA and the distributor itself, with the wallet as admin
+ */
+export async function newDistributor(
+  {
+    mint,
+    version,
+    root,
+    maxTotalClaim,
+    maxNumNodes,
+    startTs,
+    endTs,
+    clawbackStartTs,
+    clawbackReceiver,
+    enableSlot = 0,
+    closable = false,
+  }: NewDistributorParams,
+  { config, deps, client, getRequiredWallet, getDistributorPda }: InstructionsHelperParams
+): Promise<NewDistributorInstructions> {
+  try {
+    const wallet = getRequiredWallet();
+    assertVestingSchedule(startTs, endTs, clawbackStartTs);
+    const rootBytes = typeof root === 'string' ? bs58.decode(root) : root;
+    if (rootBytes.length !== 32) {
+      throw new NosanaError(
+        `Merkle root must be 32 bytes, got ${rootBytes.length}`,
+        ErrorCodes.VALIDATION_ERROR,
+        { root }
+      );
+    }
+    if (BigInt(maxNumNodes) <= 0n) {
+      throw new NosanaError('A distributor needs at least one node', ErrorCodes.VALIDATION_ERROR, {
+        maxNumNodes,
+      });
+    }
+
+    const distributor = await getDistributorPda(mint, version);
+    const [tokenVault] = await findAssociatedTokenPda({
+      mint,
+      owner: distributor,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS,
+    });
+
+    // The program expects the vault to exist, so it is created in the same transaction
+    return [
+      getCreateAssociatedTokenIdempotentInstruction({
+        payer: wallet,
+        ata: tokenVault,
+        owner: distributor,
+        mint,
+        systemProgram: SYSTEM_PROGRAM_ADDRESS,
+        tokenProgram: TOKEN_PROGRAM_ADDRESS,
+      }),
+      client.getNewDistributorInstruction(
+        {
+          distributor,
+          clawbackReceiver,
+          mint,
+          tokenVault,
+          admin: wallet,
+          systemProgram: SYSTEM_PROGRAM_ADDRESS,
+          associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+          tokenProgram: TOKEN_PROGRAM_ADDRESS,
+          version,
+          root: rootBytes,
+          maxTotalClaim,
+          maxNumNodes,
+          startVestingTs: startTs,
+          endVestingTs: endTs,
+          clawbackStartTs,
+          enableSlot,
+          closable,
+        },
+        {
+          programAddress: config.merkleDistributorAddress,
+        }
+      ),
+    ];
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create newDistributor instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
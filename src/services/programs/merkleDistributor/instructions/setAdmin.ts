@@ -0,0 +1,48 @@
+import type { Address } from '@solana/kit';
+import type { getSetAdminInstruction } from '../../../../generated_clients/merkle_distributor/index.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { assertDistributorAdmin } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type SetAdminParams = {
+  distributor: Address;
+  newAdmin: Address;
+};
+
+export type SetAdminInstruction = ReturnType<typeof getSetAdminInstruction>;
+
+export type SetAdmin = (params: SetAdminParams) => Promise<SetAdminInstruction>;
+
+export async function setAdmin(
+  { distributor, newAdmin }: SetAdminParams,
+  { config, deps, client, get, getRequiredWallet }: InstructionsHelperParams
+): Promise<SetAdminInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const current = await get(distributor);
+    assertDistributorAdmin(current, wallet.address, 'set admin');
+    if (newAdmin === current.admin) {
+      throw new NosanaError(
+        `${newAdmin} is already the admin of distributor ${distributor}`,
+        ErrorCodes.VALIDATION_ERROR,
+        { distributor, newAdmin }
+      );
+    }
+
+    return client.getSetAdminInstruction(
+      {
+        distributor,
+        admin: wallet,
+        newAdmin,
+      },
+      {
+        programAddress: config.merkleDistributorAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create setAdmin instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,53 @@
+import type { Address } from '@solana/kit';
+import type { getSetClawbackReceiverInstruction } from '../../../../generated_clients/merkle_distributor/index.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { assertDistributorAdmin } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type SetClawbackReceiverParams = {
+  distributor: Address;
+  /**
+   * Token account that receives clawed back tokens
+   */
+  newClawbackReceiver: Address;
+};
+
+export type SetClawbackReceiverInstruction = ReturnType<typeof getSetClawbackReceiverInstruction>;
+
+export type SetClawbackReceiver = (
+  params: SetClawbackReceiverParams
+) => Promise<SetClawbackReceiverInstruction>;
+
+export async function setClawbackReceiver(
+  { distributor, newClawbackReceiver }: SetClawbackReceiverParams,
+  { config, deps, client, get, getRequiredWallet }: InstructionsHelperParams
+): Promise<SetClawbackReceiverInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const current = await get(distributor);
+    assertDistributorAdmin(current, wallet.address, 'set clawback receiver');
+    if (newClawbackReceiver === current.clawbackReceiver) {
+      throw new NosanaError(
+        `${newClawbackReceiver} is already the clawback receiver of distributor ${distributor}`,
+        ErrorCodes.VALIDATION_ERROR,
+        { distributor, newClawbackReceiver }
+      );
+    }
+
+    return client.getSetClawbackReceiverInstruction(
+      {
+        distributor,
+        newClawbackAccount: newClawbackReceiver,
+        admin: wallet,
+      },
+      {
+        programAddress: config.merkleDistributorAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create setClawbackReceiver instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
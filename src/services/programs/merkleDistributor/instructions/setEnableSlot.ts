@@ -0,0 +1,43 @@
+import type { Address } from '@solana/kit';
+import type { getSetEnableSlotInstruction } from '../../../../generated_clients/merkle_distributor/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertDistributorAdmin } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type SetEnableSlotParams = {
+  distributor: Address;
+  /**
+   * Slot from which claims are accepted
+   */
+  enableSlot: number | bigint;
+};
+
+export type SetEnableSlotInstruction = ReturnType<typeof getSetEnableSlotInstruction>;
+
+export type SetEnableSlot = (params: SetEnableSlotParams) => Promise<SetEnableSlotInstruction>;
+
+export async function setEnableSlot(
+  { distributor, enableSlot }: SetEnableSlotParams,
+  { config, deps, client, get, getRequiredWallet }: InstructionsHelperParams
+): Promise<SetEnableSlotInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    assertDistributorAdmin(await get(distributor), wallet.address, 'set enable slot');
+
+    return client.getSetEnableSlotInstruction(
+      {
+        distributor,
+        admin: wallet,
+        enableSlot,
+      },
+      {
+        programAddress: config.merkleDistributorAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create setEnableSlot instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,18 @@
+import type { Address } from '@solana/kit';
+import type { ProgramConfig } from '../../../../config/index.js';
+import type { ProgramDeps, Wallet } from '../../../../types.js';
+import type { MerkleDistributorProgram } from '../MerkleDistributorProgram.js';
+import * as programClient from '../../../../generated_clients/merkle_distributor/index.js';
+
+export type InstructionsHelperParams = {
+  deps: ProgramDeps;
+  config: ProgramConfig;
+  client: typeof programClient;
+  get: MerkleDistributorProgram['get'];
+  getClaimStatusForDistributor: MerkleDistributorProgram['getClaimStatusForDistributor'];
+  getRequiredWallet: () => Wallet;
+  /**
+   * Derive the distributor PDA of a mint and version
+   */
+  getDistributorPda: (mint: Address, version: number | bigint) => Promise<Address>;
+};
@@ -0,0 +1,46 @@
+import type { Address } from '@solana/kit';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { SECONDS_PER_DAY } from '../../../../utils/index.js';
+import type { MerkleDistributor } from '../MerkleDistributorProgram.js';
+
+// The program requires the clawback to start at least a day after the vesting ends
+const MIN_CLAWBACK_DELAY = BigInt(SECONDS_PER_DAY);
+
+export function assertDistributorAdmin(
+  distributor: MerkleDistributor,
+  wallet: Address,
+  action: string
+): void {
+  if (distributor.admin !== wallet) {
+    throw new NosanaError(
+      `Cannot ${action}, wallet ${wallet} is not the admin ${distributor.admin} of distributor ${distributor.address}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { wallet, admin: distributor.admin, distributor: distributor.address }
+    );
+  }
+}
+
+/**
+ * Check that the vesting starts before it ends and the clawback starts at least a day after
+ */
+export function assertVestingSchedule(
+  startTs: number | bigint,
+  endTs: number | bigint,
+  clawbackStartTs: number | bigint
+): void {
+  const [start, end, clawbackStart] = [startTs, endTs, clawbackStartTs].map(BigInt);
+  if (!(start < end && end < clawbackStart)) {
+    throw new NosanaError(
+      `Vesting timestamps must satisfy startTs < endTs < clawbackStartTs, got ${start}, ${end} and ${clawbackStart}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { startTs, endTs, clawbackStartTs }
+    );
+  }
+  if (clawbackStart - end < MIN_CLAWBACK_DELAY) {
+    throw new NosanaError(
+      'clawbackStartTs must be at least one day after endTs',
+      ErrorCodes.VALIDATION_ERROR,
+      { endTs, clawbackStartTs }
+    );
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  getAddressEncoder,
+  getU64Encoder,
+  type Address,
+  type ReadonlyUint8Array,
+} from '@solana/kit';
+import bs58 from 'bs58';
+import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
+
+// Domain separation prefixes the merkle distributor program hashes leaves and nodes with
+const LEAF_PREFIX = new Uint8Array([0]);
+const INTERMEDIATE_PREFIX = new Uint8Array([1]);
+
+export const U64_MAX = 2n ** 64n - 1n;
+
+export type MerkleRecipient = {
+  claimant: Address;
+  /**
+   * Amount claimable immediately, in token base units
+   */
+  amountUnlocked: number | bigint;
+  /**
+   * Amount released linearly over the vesting period, in token base units
+   */
+  amountLocked: number | bigint;
+};
+
+export type MerkleClaim = {
+  claimant: Address;
+  amountUnlocked: bigint;
+  amountLocked: bigint;
+  /**
+   * Sibling hashes from the leaf up to the root, as passed to `merkleDistributor.claim`
+   */
+  proof: Uint8Array[];
+};
+
+export type MerkleTree = {
+  root: Uint8Array;
+  /**
+   * Sum of all unlocked and locked amounts, the distributor's max total claim
+   */
+  maxTotalClaim: bigint;
+  /**
+   * Number of claimants, the distributor's max number of nodes
+   */
+  maxNumNodes: bigint;
+  /**
+   * One claim per recipient, in the order of the recipients
+   */
+  claims: MerkleClaim[];
+  /**
+   * Find the claim of a claimant, or null if the claimant is not in the tree
+   */
+  getClaim(claimant: Address): MerkleClaim | null;
+};
+
+export type MerkleProofParams = {
+  /**
+   * Merkle root as bytes or as the base58 string stored on the distributor
+   */
+  root: ReadonlyUint8Array | string;
+  claimant: Address;
+  amountUnlocked: number | bigint;
+  amountLocked: number | bigint;
+  proof: ReadonlyArray<ReadonlyUint8Array>;
+};
+
+export type BuildMerkleTree = (recipients: MerkleRecipient[]) => Promise<MerkleTree>;
+
+export type VerifyMerkleProof = (params: MerkleProofParams) => Promise<boolean>;
+
+async function sha256(...parts: ReadonlyUint8Array[]): Promise<Uint8Array> {
+  const data = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function compareBytes(a: ReadonlyUint8Array, b: ReadonlyUint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Hash two nodes in byte order, so proofs don't need to record which side a sibling is on
+ */
+function hashIntermediate(a: ReadonlyUint8Array, b: ReadonlyUint8Array): Promise<Uint8Array> {
+  return compareBytes(a, b) <= 0
+    ? sha256(INTERMEDIATE_PREFIX, a, b)
+    : sha256(INTERMEDIATE_PREFIX, b, a);
+}
+
+function getU64Amount(amount: number | bigint, name: string, claimant: Address): bigint {
+  if (typeof amount === 'number' && !Number.isSafeInteger(amount)) {
+    throw new NosanaError(
+      `${name} of ${claimant} must be an integer amount of base units`,
+      ErrorCodes.VALIDATION_ERROR,
+      { claimant, [name]: amount }
+    );
+  }
+  const value = BigInt(amount);
+  if (value < 0n || value > U64_MAX) {
+    throw new NosanaError(
+      `${name} of ${claimant} must fit in an unsigned 64-bit integer`,
+      ErrorCodes.VALIDATION_ERROR,
+      { claimant, [name]: amount }
+    );
+  }
+  return value;
+}
+
+/**
+ * Compute the leaf of a claimant the way the merkle distributor program does:
+ * sha256(0 || sha256(claimant || amountUnlocked || amountLocked)), amounts as little-endian u64
+ *
+ * @throws NosanaError with VALIDATION_ERROR code if an amount is not a u64
+ */
+export async function getMerkleLeaf({
+  claimant,
+  amountUnlocked,
+  amountLocked,
+}: MerkleRecipient): Promise<Uint8Array> {
+  const u64 = getU64Encoder();
+  const node = await sha256(
+    getAddressEncoder().encode(claimant),
+    u64.encode(getU64Amount(amountUnlocked, 'amountUnlocked', claimant)),
+    u64.encode(getU64Amount(amountLocked, 'amountLocked', claimant))
+  );
+  return sha256(LEAF_PREFIX, node);
+}
+
+/**
+ * Build the merkle tree of a distribution. An odd node at the end of a level is
+ * paired with itself, matching the tree the merkle distributor program verifies against.
+ *
+ * @throws NosanaError with VALIDATION_ERROR code if there are no recipients, a claimant
+ * appears more than once or an amount is not a u64
+ */
+export async function buildMerkleTree(recipients: MerkleRecipient[]): Promise<MerkleTree> {
+  if (recipients.length === 0) {
+    throw new NosanaError(
+      'A merkle tree needs at least one recipient',
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+
+  // Each claimant has a single claim status account, so a second leaf could never be claimed
+  const indexes = new Map<Address, number>();
+  recipients.forEach(({ claimant }, index) => {
+    if (indexes.has(claimant)) {
+      throw new NosanaError(
+        `Claimant ${claimant} appears more than once in the recipients`,
+        ErrorCodes.VALIDATION_ERROR,
+        { claimant }
+      );
+    }
+    indexes.set(claimant, index);
+  });
+
+  const claims: MerkleClaim[] = recipients.map(({ claimant, amountUnlocked, amountLocked }) => ({
+    claimant,
+    amountUnlocked: getU64Amount(amountUnlocked, 'amountUnlocked', claimant),
+    amountLocked: getU64Amount(amountLocked, 'amountLocked', claimant),
+    proof: [],
+  }));
+
+  let maxTotalClaim = 0n;
+  for (const claim of claims) {
+    maxTotalClaim += claim.amountUnlocked + claim.amountLocked;
+  }
+  if (maxTotalClaim > U64_MAX) {
+    throw new NosanaError(
+      'The total of all claims must fit in an unsigned 64-bit integer',
+      ErrorCodes.VALIDATION_ERROR,
+      { maxTotalClaim }
+    );
+  }
+
+  let level = await Promise.all(claims.map((claim) => getMerkleLeaf(claim)));
+  // Position of each claim's ancestor in the current level
+  const positions = claims.map((_, index) => index);
+
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(await hashIntermediate(level[i], level[i + 1] ?? level[i]));
+    }
+    claims.forEach((claim, index) => {
+      const position = positions[index];
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      claim.proof.push(level[sibling] ?? level[position]);
+      positions[index] = Math.floor(position / 2);
+    });
+    level = next;
+  }
+
+  return {
+    root: level[0],
+    maxTotalClaim,
+    maxNumNodes: BigInt(claims.length),
+    claims,
+    getClaim(claimant: Address): MerkleClaim | null {
+      const index = indexes.get(claimant);
+      return index === undefined ? null : claims[index];
+    },
+  };
+}
+
+/**
+ * Check a claim against a merkle root the way the merkle distributor program does,
+ * without sending a transaction
+ *
+ * @throws NosanaError with VALIDATION_ERROR code if an amount is not a u64
+ */
+export async function verifyMerkleProof({
+  root,
+  proof,
+  ...recipient
+}: MerkleProofParams): Promise<boolean> {
+  const rootBytes = typeof root === 'string' ? bs58.decode(root) : root;
+
+  let node = await getMerkleLeaf(recipient);
+  for (const sibling of proof) {
+    node = await hashIntermediate(node, sibling);
+  }
+  return compareBytes(node, rootBytes) === 0;
+}
@@ -0,0 +1,142 @@
+import { isAddress, type Address } from '@solana/kit';
+import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
+import { U64_MAX, type MerkleRecipient } from './merkle.js';
+
+const CSV_COLUMNS = ['claimant', 'amountUnlocked', 'amountLocked'] as const;
+
+export type ReadRecipients = (contents: string) => MerkleRecipient[];
+
+function parseAmount(value: unknown, name: string, location: string): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new NosanaError(
+      `${name} on ${location} must be an integer below 2^53, use a string for larger amounts`,
+      ErrorCodes.VALIDATION_ERROR,
+      { [name]: value }
+    );
+  }
+  const text = typeof value === 'number' ? String(value) : value;
+  if (typeof text !== 'string' || !/^\d+$/.test(text)) {
+    throw new NosanaError(
+      `${name} on ${location} must be a non-negative integer amount of base units`,
+      ErrorCodes.VALIDATION_ERROR,
+      { [name]: value }
+    );
+  }
+  const amount = BigInt(text);
+  if (amount > U64_MAX) {
+    throw new NosanaError(
+      `${name} on ${location} overflows an unsigned 64-bit integer`,
+      ErrorCodes.VALIDATION_ERROR,
+      { [name]: text }
+    );
+  }
+  return amount;
+}
+
+/**
+ * Validate the claimant and amounts of a recipients file entry, `location` names the entry
+ * in error messages and `seen` tracks the claimants of earlier entries
+ */
+export function parseRecipient(
+  entry: Record<string, unknown>,
+  location: string,
+  seen: Map<Address, string>
+): MerkleRecipient {
+  const { claimant } = entry;
+  if (typeof claimant !== 'string' || !isAddress(claimant)) {
+    throw new NosanaError(
+      `claimant on ${location} is not a valid base58 address`,
+      ErrorCodes.VALIDATION_ERROR,
+      { claimant }
+    );
+  }
+  const duplicate = seen.get(claimant);
+  if (duplicate !== undefined) {
+    throw new NosanaError(
+      `Claimant ${claimant} on ${location} is a duplicate of ${duplicate}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { claimant }
+    );
+  }
+  seen.set(claimant, location);
+
+  return {
+    claimant,
+    amountUnlocked: parseAmount(entry.amountUnlocked, 'amountUnlocked', location),
+    amountLocked: parseAmount(entry.amountLocked, 'amountLocked', location),
+  };
+}
+
+/**
+ * Read recipients from a CSV with a `claimant,amountUnlocked,amountLocked` header,
+ * columns in any order, amounts in token base units
+ *
+ * @throws NosanaError with FILE_ERROR code if the header is missing a column or a row has
+ * the wrong number of cells
+ * @throws NosanaError with VALIDATION_ERROR code if a claimant is invalid or duplicated or an
+ * amount is not a u64
+ */
+export function readRecipientsCsv(contents: string): MerkleRecipient[] {
+  const rows = contents
+    .split(/\r?\n/)
+    .map((line, index) => ({
+      line: index + 1,
+      cells: line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1')),
+    }))
+    .filter(({ cells }) => cells.some((cell) => cell !== ''));
+
+  const [header, ...records] = rows;
+  const missing = CSV_COLUMNS.filter((column) => !header?.cells.includes(column));
+  if (!header || missing.length > 0) {
+    throw new NosanaError(
+      `Recipients CSV header is missing the column(s) ${missing.join(', ')}`,
+      ErrorCodes.FILE_ERROR,
+      { header: header?.cells }
+    );
+  }
+
+  const seen = new Map<Address, string>();
+  return records.map(({ line, cells }) => {
+    if (cells.length !== header.cells.length) {
+      throw new NosanaError(
+        `Line ${line} of the recipients CSV has ${cells.length} cells, expected ${header.cells.length}`,
+        ErrorCodes.FILE_ERROR,
+        { line }
+      );
+    }
+    const entry = Object.fromEntries(header.cells.map((column, i) => [column, cells[i]]));
+    return parseRecipient(entry, `line ${line}`, seen);
+  });
+}
+
+/**
+ * Read recipients from a JSON array of `{ claimant, amountUnlocked, amountLocked }`, amounts in
+ * token base units as integers or, above 2^53, as strings
+ *
+ * @throws NosanaError with FILE_ERROR code if the contents are not a JSON array of objects
+ * @throws NosanaError with VALIDATION_ERROR code if a claimant is invalid or duplicated or an
+ * amount is not a u64
+ */
+export function readRecipientsJson(contents: string): MerkleRecipient[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(contents);
+  } catch (err) {
+    throw new NosanaError('Recipients JSON could not be parsed', ErrorCodes.FILE_ERROR, err);
+  }
+  if (!Array.isArray(entries)) {
+    throw new NosanaError('Recipients JSON must be an array', ErrorCodes.FILE_ERROR);
+  }
+
+  const seen = new Map<Address, string>();
+  return entries.map((entry: unknown, index) => {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new NosanaError(
+        `Entry ${index} of the recipients JSON is not an object`,
+        ErrorCodes.FILE_ERROR,
+        { entry }
+      );
+    }
+    return parseRecipient(entry as Record<string, unknown>, `entry ${index}`, seen);
+  });
+}
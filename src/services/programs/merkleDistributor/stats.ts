@@ -0,0 +1,78 @@
+import type { Address } from '@solana/kit';
+import type { MerkleDistributor } from './MerkleDistributorProgram.js';
+
+export type MerkleDistributorStats = {
+  /**
+   * Claimed amount in token base units, unlocked claims and locked withdrawals
+   */
+  totalAmountClaimed: number;
+  maxTotalClaim: number;
+  /**
+   * Share of the max total claim that has been claimed, from 0 to 100
+   */
+  claimedPercentage: number;
+  numNodesClaimed: number;
+  maxNumNodes: number;
+  /**
+   * Share of the claimants that have claimed, from 0 to 100
+   */
+  nodesClaimedPercentage: number;
+  /**
+   * Amount in token base units forgone by claimants
+   */
+  totalAmountForgone: number;
+  clawbackStartTime: Date;
+  /**
+   * Seconds until unclaimed tokens can be clawed back, 0 once the clawback has started
+   */
+  secondsUntilClawback: number;
+  clawedBack: boolean;
+  /**
+   * Share of locked amounts that has vested, from 0 to 100
+   */
+  unlockPercentage: number;
+};
+
+export type GetMerkleDistributorStats = (
+  distributor: Address | MerkleDistributor
+) => Promise<MerkleDistributorStats>;
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.min((part / total) * 100, 100) : 0;
+}
+
+/**
+ * Claim progress and vesting state of a distributor at a time, defaults to now
+ */
+export function getDistributorStats(
+  distributor: MerkleDistributor,
+  at: Date = new Date()
+): MerkleDistributorStats {
+  const now = at.getTime() / 1000;
+  const [totalAmountClaimed, maxTotalClaim, numNodesClaimed, maxNumNodes] = [
+    distributor.totalAmountClaimed,
+    distributor.maxTotalClaim,
+    distributor.numNodesClaimed,
+    distributor.maxNumNodes,
+  ].map(Number);
+  const [startTs, endTs, clawbackStartTs] = [
+    distributor.startTs,
+    distributor.endTs,
+    distributor.clawbackStartTs,
+  ].map(Number);
+
+  return {
+    totalAmountClaimed,
+    maxTotalClaim,
+    claimedPercentage: percentage(totalAmountClaimed, maxTotalClaim),
+    numNodesClaimed,
+    maxNumNodes,
+    nodesClaimedPercentage: percentage(numNodesClaimed, maxNumNodes),
+    totalAmountForgone: Number(distributor.totalAmountForgone),
+    clawbackStartTime: new Date(clawbackStartTs * 1000),
+    secondsUntilClawback: Math.max(Math.ceil(clawbackStartTs - now), 0),
+    clawedBack: distributor.clawedBack,
+    unlockPercentage:
+      now >= endTs ? 100 : now < startTs ? 0 : percentage(now - startTs, endTs - startTs),
+  };
+}
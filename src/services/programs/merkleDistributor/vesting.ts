@@ -0,0 +1,108 @@
+import { SECONDS_PER_DAY } from '../../../utils/index.js';
+import type { ClaimStatus, MerkleDistributor } from './MerkleDistributorProgram.js';
+
+/**
+ * Part of a locked amount vested at a timestamp the way the merkle distributor program
+ * computes it: nothing before startTs, everything from endTs and linear in between, rounded down
+ */
+export function getVestedAmount(
+  lockedAmount: bigint,
+  startTs: bigint,
+  endTs: bigint,
+  timestamp: bigint
+): bigint {
+  if (timestamp < startTs) {
+    return 0n;
+  }
+  if (timestamp >= endTs) {
+    return lockedAmount;
+  }
+  return ((timestamp - startTs) * lockedAmount) / (endTs - startTs);
+}
+
+/**
+ * Locked amount in token base units a claimant can withdraw with `claimLocked` at a time,
+ * defaults to now
+ */
+export function getWithdrawableLockedAmount(
+  claimStatus: ClaimStatus,
+  distributor: MerkleDistributor,
+  at: Date = new Date()
+): bigint {
+  const vested = getVestedAmount(
+    BigInt(claimStatus.lockedAmount),
+    BigInt(distributor.startTs),
+    BigInt(distributor.endTs),
+    BigInt(Math.floor(at.getTime() / 1000))
+  );
+  const withdrawable = vested - BigInt(claimStatus.lockedAmountWithdrawn);
+  return withdrawable > 0n ? withdrawable : 0n;
+}
+
+export type VestingScheduleEntry = {
+  /**
+   * End of the day, or the end of the vesting for the last entry
+   */
+  date: Date;
+  /**
+   * Locked amount that vests during the day, in token base units
+   */
+  unlocked: number;
+  /**
+   * Locked amount vested in total by the end of the day
+   */
+  vested: number;
+  /**
+   * Locked amount that can be withdrawn with `claimLocked` by the end of the day
+   */
+  withdrawable: number;
+};
+
+export type VestingScheduleOptions = {
+  /**
+   * Start of the projection, defaults to now
+   */
+  from?: Date;
+};
+
+export type GetVestingSchedule = (
+  claimStatus: ClaimStatus,
+  options?: VestingScheduleOptions
+) => Promise<VestingScheduleEntry[]>;
+
+/**
+ * Project the vesting of the locked amount of a claim status per day, from the later of
+ * `from` and the vesting start until the vesting end. Empty once fully vested.
+ */
+export function getVestingSchedule(
+  claimStatus: ClaimStatus,
+  distributor: MerkleDistributor,
+  { from = new Date() }: VestingScheduleOptions = {}
+): VestingScheduleEntry[] {
+  const lockedAmount = BigInt(claimStatus.lockedAmount);
+  const withdrawn = BigInt(claimStatus.lockedAmountWithdrawn);
+  const startTs = BigInt(distributor.startTs);
+  const endTs = BigInt(distributor.endTs);
+
+  const schedule: VestingScheduleEntry[] = [];
+  let timestamp = BigInt(Math.floor(from.getTime() / 1000));
+  if (timestamp < startTs) {
+    timestamp = startTs;
+  }
+  let vested = getVestedAmount(lockedAmount, startTs, endTs, timestamp);
+  while (timestamp < endTs) {
+    timestamp += BigInt(SECONDS_PER_DAY);
+    if (timestamp > endTs) {
+      timestamp = endTs;
+    }
+    const next = getVestedAmount(lockedAmount, startTs, endTs, timestamp);
+    schedule.push({
+      date: new Date(Number(timestamp) * 1000),
+      unlocked: Number(next - vested),
+      vested: Number(next),
+      withdrawable: Number(next > withdrawn ? next - withdrawn : 0n),
+    });
+    vested = next;
+  }
+  return schedule;
+}
@@ -1,11 +1,39 @@
-import { Address, Account, parseBase64RpcAccount, Base58EncodedBytes } from '@solana/kit';
-import type { ProgramDeps } from '../../../types.js';
+import {
+  Address,
+  Account,
+  parseBase64RpcAccount,
+  Base58EncodedBytes,
+  GetProgramAccountsMemcmpFilter,
+} from '@solana/kit';
+import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
+import type { ProgramDeps, Wallet } from '../../../types.js';
 import * as programClient from '../../../generated_clients/staking/index.js';
-import { convertBigIntToNumber, ConvertTypesForDb } from '../../../utils/index.js';
+import {
+  convertBigIntToNumber,
+  ConvertTypesForDb,
+  createMemcmpFilter,
+  getAccountFieldOffsets,
+} from '../../../utils/index.js';
 import bs58 from 'bs58';
+import * as Instructions from './instructions/index.js';
+import type { InstructionsHelperParams } from './instructions/types.js';
+import {
+  computeXnos,
+  projectXnos,
+  unlockTime,
+  type ComputeXnos,
+  type ProjectXnos,
+  type UnlockTime,
+} from './xnos.js';
+import { monitor, type StakeMonitor } from './monitor.js';
+import { stats, type GetStakeStats } from './stats.js';
 
 export type Stake = ConvertTypesForDb<programClient.StakeAccountArgs> & { address: Address };
 
+export type StakeSettings = ConvertTypesForDb<programClient.SettingsAccountArgs> & {
+  address: Address;
+};
+
 /**
  * Stake program interface
  * @group @nosana/kit
@@ -22,9 +50,151 @@ export interface StakeProgram {
   multiple(addresses: Address[]): Promise<Stake[]>;
 
   /**
-   * Fetch all stake accounts
+   * Derive the stake PDA of an authority.
+   * If authority is not provided, uses the wallet's address.
+   */
+  getStakePda(authority?: Address): Promise<Address>;
+
+  /**
+   * Fetch the stake of an authority, or null when it has not staked.
+   * If authority is not provided, uses the wallet's address.
+   */
+  forAuthority(authority?: Address): Promise<Stake | null>;
+
+  /**
+   * Fetch all stake accounts, optionally only those of one authority
+   */
+  all(filters?: { authority?: Address }): Promise<Stake[]>;
+
+  /**
+   * Aggregate statistics over all stake accounts: total staked NOS and xNOS, the number of
+   * active and unstaking stakes, a histogram of stake durations and the largest stakes
+   *
+   * @example
+   * ```typescript
+   * const { totalStaked, totalXnos, topStakers } = await stakeProgram.stats({
+   *   topN: 5,
+   *   dataSlice: true,
+   * });
+   * ```
+   */
+  stats: GetStakeStats;
+
+  /**
+   * Fetch the settings of the staking program: the slashing authority and the
+   * token account that receives slashed tokens
+   */
+  settings(): Promise<StakeSettings>;
+
+  /**
+   * Monitor stake accounts in real time, with the same reconnection, backfill and
+   * polling fallback as the jobs monitor. Emits an event for every stake that is
+   * created, topped up, extended, unstaked, restaked, slashed or closed.
+   *
+   * @example
+   * ```typescript
+   * const [events, stop] = await stakeProgram.monitor({ authority: operator });
+   * for await (const event of events) {
+   *   if (event.type === StakeEventType.UNSTAKED) {
+   *     console.log(`${event.stake} unstaked, xNOS ${event.before.xnos} -> ${event.after.xnos}`);
+   *   }
+   * }
+   * ```
+   */
+  monitor: StakeMonitor;
+
+  /**
+   * Compute the xNOS of staking an amount of NOS for a duration, using the multiplier
+   * of the staking program: 1 plus 1 for every 4 months of duration, up to 4 for a year
+   *
+   * @example
+   * ```typescript
+   * stakeProgram.computeXnos(1000, { days: 365 }); // 4000
+   * ```
    */
-  all(): Promise<Stake[]>;
+  computeXnos: ComputeXnos;
+
+  /**
+   * Project the xNOS of a stake after a topup and/or an extension, before signing it
+   *
+   * @example
+   * ```typescript
+   * const stake = await stakeProgram.forAuthority();
+   * const { xnos, xnosIncrease } = stakeProgram.projectXnos(stake, {
+   *   topupBy: 500,
+   *   extendBy: { days: 30 },
+   * });
+   * ```
+   */
+  projectXnos: ProjectXnos;
+
+  /**
+   * Time at which an unstaked stake is fully released, or null if it is not unstaked
+   */
+  unlockTime: UnlockTime;
+
+  /**
+   * Create a stake for the wallet, locking an amount of NOS for a duration
+   *
+   * @example
+   * ```typescript
+   * const instruction = await stakeProgram.stake({ amount: 1000, duration: { days: 30 } });
+   * await client.solana.buildSignAndSend(instruction);
+   * ```
+   */
+  stake: Instructions.CreateStake;
+
+  /**
+   * Unstake the stake of the wallet, starting the release of its tokens over the stake duration
+   */
+  unstake: Instructions.Unstake;
+
+  /**
+   * Cancel a pending unstake of the wallet's stake
+   */
+  restake: Instructions.Restake;
+
+  /**
+   * Add NOS to the stake of the wallet
+   */
+  topup: Instructions.Topup;
+
+  /**
+   * Extend the duration of the wallet's stake
+   */
+  extend: Instructions.ExtendStake;
+
+  /**
+   * Withdraw the released tokens of an unstaked stake to the wallet
+   */
+  withdraw: Instructions.Withdraw;
+
+  /**
+   * Close an unstaked stake once its duration has passed
+   */
+  close: Instructions.CloseStake;
+
+  /**
+   * Slash NOS from a stake to the settings token account. The wallet must be the settings authority.
+   */
+  slash: Instructions.Slash;
+
+  /**
+   * Update the slashing authority and token account. The wallet must be the settings authority.
+   */
+  updateSettings: Instructions.UpdateStakeSettings;
+}
+
+/**
+ * Transform stake account to include address and convert BigInt to numbers
+ */
+export function transformStakeAccount(stakeAccount: Account<programClient.StakeAccount>): Stake {
+  const { discriminator: _, ...stakeAccountData } = stakeAccount.data;
+
+  return {
+    address: stakeAccount.address,
+    ...convertBigIntToNumber(stakeAccountData),
+  };
 }
 
 /**
@@ -52,16 +222,69 @@ import type { ProgramConfig } from '../../../config/types.js';
 export function createStakeProgram(deps: ProgramDeps, config: ProgramConfig): StakeProgram {
   const programId = config.stakeAddress;
   const client = programClient;
+  const stakeAccountOffsets = getAccountFieldOffsets(client.getStakeAccountDecoder());
+
+  function getRequiredWallet(): Wallet {
+    const wallet = deps.getWallet();
+    if (!wallet) {
+      throw new NosanaError('Wallet is required for this operation', ErrorCodes.NO_WALLET);
+    }
+    return wallet;
+  }
 
   /**
-   * Transform stake account to include address and convert BigInt to numbers
+   * Transform settings account to include address
    */
-  function transformStakeAccount(stakeAccount: Account<programClient.StakeAccount>): Stake {
-    const { discriminator: _, ...stakeAccountData } = stakeAccount.data;
+  function transformSettingsAccount(
+    settingsAccount: Account<programClient.SettingsAccount>
+  ): StakeSettings {
+    const { discriminator: _, ...settingsAccountData } = settingsAccount.data;
 
     return {
-      address: stakeAccount.address,
-      ...convertBigIntToNumber(stakeAccountData),
+      address: settingsAccount.address,
+      ...convertBigIntToNumber(settingsAccountData),
+    };
+  }
+
+  function getSettingsPda(): Promise<Address> {
+    return deps.solana.pda(['settings'], programId);
+  }
+
+  function getAuthority(authority?: Address): Address {
+    if (authority) return authority;
+    const wallet = deps.getWallet();
+    if (!wallet) {
+      throw new Error('Wallet not set. Please set a wallet or provide an authority address.');
+    }
+    return wallet.address;
+  }
+
+  function deriveStakePda(authority: Address): Promise<Address> {
+    return deps.solana.pda(['stake', config.nosTokenAddress, authority], programId);
+  }
+
+  async function getStakeAccounts(authority: Address): Promise<{ stake: Address; vault: Address }> {
+    const [stake, vault] = await Promise.all([
+      deriveStakePda(authority),
+      deps.solana.pda(['vault', config.nosTokenAddress, authority], programId),
+    ]);
+    return { stake, vault };
+  }
+
+  function createInstructionsHelper(
+    get: StakeProgram['get'],
+    getSettings: StakeProgram['settings']
+  ): InstructionsHelperParams {
+    return {
+      deps,
+      config,
+      client,
+      get,
+      getSettings,
+      getSettingsPda,
+      getRequiredWallet,
+      getStakeAccounts,
+      getNosATA: deps.nos.getATA,
     };
   }
 
@@ -95,10 +318,50 @@ export function createStakeProgram(deps: ProgramDeps, config: ProgramConfig): St
     },
 
     /**
-     * Fetch all stake accounts
+     * Derive the stake PDA of an authority.
+     * If authority is not provided, uses the wallet's address.
+     *
+     * @param authority Optional authority address. If not provided, uses the wallet's address.
+     * @returns The stake PDA address
+     * @throws Error if wallet is not set and authority is not provided
      */
-    async all(): Promise<Stake[]> {
+    async getStakePda(authority?: Address): Promise<Address> {
+      return await deriveStakePda(getAuthority(authority));
+    },
+
+    /**
+     * Fetch the stake of an authority, or null when it has not staked.
+     * If authority is not provided, uses the wallet's address.
+     *
+     * @param authority Optional authority address. If not provided, uses the wallet's address.
+     * @returns The stake of the authority, or null if the stake account doesn't exist
+     * @throws Error if wallet is not set and authority is not provided
+     */
+    async forAuthority(authority?: Address): Promise<Stake | null> {
+      const stakePda = await this.getStakePda(authority);
+      try {
+        const maybeStakeAccount = await client.fetchMaybeStakeAccount(deps.solana.rpc, stakePda);
+        if (!maybeStakeAccount.exists) {
+          return null;
+        }
+        return transformStakeAccount(maybeStakeAccount);
+      } catch (err) {
+        deps.logger.error(`Failed to fetch stake ${err}`);
+        throw err;
+      }
+    },
+
+    /**
+     * Fetch all stake accounts, optionally only those of one authority
+     */
+    async all(filters?: { authority?: Address }): Promise<Stake[]> {
       try {
+        const extraGPAFilters: GetProgramAccountsMemcmpFilter[] = [];
+        if (filters?.authority) {
+          extraGPAFilters.push(
+            createMemcmpFilter(stakeAccountOffsets.authority, filters.authority)
+          );
+        }
         const getProgramAccountsResponse = await deps.solana.rpc
           .getProgramAccounts(programId, {
             encoding: 'base64',
@@ -112,6 +375,7 @@ export function createStakeProgram(deps: ProgramDeps, config: ProgramConfig): St
                   encoding: 'base58',
                 },
               },
+              ...extraGPAFilters,
             ],
           })
           .send();
@@ -135,5 +399,77 @@ export function createStakeProgram(deps: ProgramDeps, config: ProgramConfig): St
         throw err;
       }
     },
+    /**
+     * Aggregate statistics over all stake accounts
+     */
+    async stats(options = {}) {
+      return stats(options, { deps, config, client, all: this.all.bind(this) });
+    },
+    /**
+     * Fetch the settings of the staking program
+     */
+    async settings(): Promise<StakeSettings> {
+      try {
+        const settingsAccount = await client.fetchSettingsAccount(
+          deps.solana.rpc,
+          await getSettingsPda()
+        );
+        return transformSettingsAccount(settingsAccount);
+      } catch (err) {
+        deps.logger.error(`Failed to fetch stake settings ${err}`);
+        throw err;
+      }
+    },
+    /**
+     * Monitor stake accounts and emit typed change events
+     */
+    async monitor(filters, options = {}) {
+      return monitor(filters, options, { deps, config, client, transformStakeAccount });
+    },
+    /**
+     * Compute the xNOS of staking an amount of NOS for a duration
+     */
+    computeXnos(amount, duration) {
+      return computeXnos(amount, duration);
+    },
+    /**
+     * Project the xNOS of a stake after a topup and/or an extension
+     */
+    projectXnos(stake, params) {
+      return projectXnos(stake, params);
+    },
+    /**
+     * Time at which an unstaked stake is fully released
+     */
+    unlockTime(stake) {
+      return unlockTime(stake);
+    },
+    async stake(params) {
+      return Instructions.stake(params, createInstructionsHelper(this.get, this.settings));
+    },
+    async unstake() {
+      return Instructions.unstake(createInstructionsHelper(this.get, this.settings));
+    },
+    async restake() {
+      return Instructions.restake(createInstructionsHelper(this.get, this.settings));
+    },
+    async topup(params) {
+      return Instructions.topup(params, createInstructionsHelper(this.get, this.settings));
+    },
+    async extend(params) {
+      return Instructions.extend(params, createInstructionsHelper(this.get, this.settings));
+    },
+    async withdraw() {
+      return Instructions.withdraw(createInstructionsHelper(this.get, this.settings));
+    },
+    async close() {
+      return Instructions.close(createInstructionsHelper(this.get, this.settings));
+    },
+    async slash(params) {
+      return Instructions.slash(params, createInstructionsHelper(this.get, this.settings));
+    },
+    async updateSettings(params) {
+      return Instructions.updateSettings(params, createInstructionsHelper(this.get, this.settings));
+    },
   };
 }
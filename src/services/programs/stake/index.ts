@@ -1 +1,2 @@
 export * from './StakeProgram.js';
+export * from './monitor.js';
@@ -0,0 +1,47 @@
+import type { getCloseInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertUnlocked, assertUnstaked } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type CloseStakeInstruction = ReturnType<typeof getCloseInstruction>;
+
+export type CloseStake = () => Promise<CloseStakeInstruction>;
+
+export async function close({
+  config,
+  deps,
+  client,
+  get,
+  getRequiredWallet,
+  getStakeAccounts,
+  getNosATA,
+}: InstructionsHelperParams): Promise<CloseStakeInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const [{ stake, vault }, associatedTokenAddress] = await Promise.all([
+      getStakeAccounts(wallet.address),
+      getNosATA(wallet.address),
+    ]);
+    const current = await get(stake);
+    assertUnstaked(current, true, 'close');
+    assertUnlocked(current, 'close');
+
+    // Create the close instruction, remaining tokens are returned and the accounts closed
+    return client.getCloseInstruction(
+      {
+        user: associatedTokenAddress,
+        stake,
+        vault,
+        authority: wallet,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create close instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,44 @@
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { SECONDS_PER_DAY } from '../../../../utils/index.js';
+
+/**
+ * Shortest duration the staking program accepts, 14 days
+ */
+export const STAKE_DURATION_MIN = 14 * SECONDS_PER_DAY;
+
+/**
+ * Longest duration the staking program accepts, 365 days
+ */
+export const STAKE_DURATION_MAX = 365 * SECONDS_PER_DAY;
+
+/**
+ * A stake duration, either in days or in seconds
+ * @group @nosana/kit
+ */
+export type StakeDuration = { days: number } | { seconds: number | bigint };
+
+/**
+ * Convert a stake duration to whole seconds.
+ *
+ * @throws NosanaError with VALIDATION_ERROR code if the duration is not a positive number
+ */
+export function getDurationSeconds(duration: StakeDuration): bigint {
+  let seconds: bigint | null = null;
+  if ('days' in duration) {
+    if (Number.isFinite(duration.days)) {
+      seconds = BigInt(Math.round(duration.days * SECONDS_PER_DAY));
+    }
+  } else if (typeof duration.seconds === 'bigint' || Number.isInteger(duration.seconds)) {
+    seconds = BigInt(duration.seconds);
+  }
+
+  if (seconds === null || seconds <= 0n) {
+    const value = 'days' in duration ? `${duration.days} days` : `${duration.seconds} seconds`;
+    throw new NosanaError(
+      `Invalid stake duration: ${value}. Duration must be a positive number of days or whole seconds.`,
+      ErrorCodes.VALIDATION_ERROR,
+      { duration }
+    );
+  }
+  return seconds;
+}
@@ -0,0 +1,48 @@
+import type { getExtendInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { getDurationSeconds, type StakeDuration } from './duration.js';
+import { assertStakeDuration, assertUnstaked } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type ExtendStakeParams = {
+  /**
+   * Duration to add to the stake, the total may not exceed 365 days
+   */
+  duration: StakeDuration;
+};
+
+export type ExtendStakeInstruction = ReturnType<typeof getExtendInstruction>;
+
+export type ExtendStake = (params: ExtendStakeParams) => Promise<ExtendStakeInstruction>;
+
+export async function extend(
+  { duration }: ExtendStakeParams,
+  { config, deps, client, get, getRequiredWallet, getStakeAccounts }: InstructionsHelperParams
+): Promise<ExtendStakeInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const seconds = getDurationSeconds(duration);
+
+    const { stake } = await getStakeAccounts(wallet.address);
+    const current = await get(stake);
+    assertUnstaked(current, false, 'extend');
+    assertStakeDuration(BigInt(current.duration) + seconds);
+
+    // Create the extend instruction, the duration is added to the current one
+    return client.getExtendInstruction(
+      {
+        stake,
+        authority: wallet,
+        duration: seconds,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create extend instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
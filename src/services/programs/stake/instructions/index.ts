@@ -0,0 +1,10 @@
+export * from './close.js';
+export * from './duration.js';
+export * from './extend.js';
+export * from './restake.js';
+export * from './slash.js';
+export * from './stake.js';
+export * from './topup.js';
+export * from './unstake.js';
+export * from './updateSettings.js';
+export * from './withdraw.js';
@@ -0,0 +1,40 @@
+import type { getRestakeInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertUnstaked } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type RestakeInstruction = ReturnType<typeof getRestakeInstruction>;
+
+export type Restake = () => Promise<RestakeInstruction>;
+
+export async function restake({
+  config,
+  deps,
+  client,
+  get,
+  getRequiredWallet,
+  getStakeAccounts,
+}: InstructionsHelperParams): Promise<RestakeInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const { stake, vault } = await getStakeAccounts(wallet.address);
+    assertUnstaked(await get(stake), true, 'restake');
+
+    // Create the restake instruction, which cancels a pending unstake
+    return client.getRestakeInstruction(
+      {
+        vault,
+        stake,
+        authority: wallet,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create restake instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,73 @@
+import type { Address } from '@solana/kit';
+import type { getSlashInstruction } from '../../../../generated_clients/staking/index.js';
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { convertBaseUnitsToNos } from '../../../../utils/index.js';
+import { assertSettingsAuthority, getStakeAmount } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type SlashParams = {
+  /**
+   * Address of the stake account to slash
+   */
+  stake: Address;
+  /**
+   * Amount to take from the stake in NOS
+   */
+  amount: number;
+};
+
+export type SlashInstruction = ReturnType<typeof getSlashInstruction>;
+
+export type Slash = (params: SlashParams) => Promise<SlashInstruction>;
+
+export async function slash(
+  { stake, amount }: SlashParams,
+  {
+    config,
+    deps,
+    client,
+    get,
+    getSettings,
+    getSettingsPda,
+    getRequiredWallet,
+  }: InstructionsHelperParams
+): Promise<SlashInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const baseUnits = getStakeAmount(amount);
+
+    const [current, settings, settingsPda] = await Promise.all([
+      get(stake),
+      getSettings(),
+      getSettingsPda(),
+    ]);
+    assertSettingsAuthority(settings, wallet.address, 'slash');
+    if (baseUnits > BigInt(current.amount)) {
+      throw new NosanaError(
+        `Cannot slash ${amount} NOS from stake ${stake}, it only holds ${convertBaseUnitsToNos(current.amount)} NOS`,
+        ErrorCodes.VALIDATION_ERROR,
+        { stake, amount: baseUnits, staked: current.amount }
+      );
+    }
+
+    // Create the slash instruction, the slashed tokens go to the settings token account
+    return client.getSlashInstruction(
+      {
+        vault: current.vault,
+        stake,
+        tokenAccount: settings.tokenAccount,
+        settings: settingsPda,
+        authority: wallet,
+        amount: baseUnits,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create slash instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,58 @@
+import type { getStakeInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { getDurationSeconds, type StakeDuration } from './duration.js';
+import { assertStakeDuration, getStakeAmount } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type StakeParams = {
+  /**
+   * Amount to stake in NOS
+   */
+  amount: number;
+  /**
+   * Lock duration, between 14 and 365 days
+   */
+  duration: StakeDuration;
+};
+
+export type StakeInstruction = ReturnType<typeof getStakeInstruction>;
+
+export type CreateStake = (params: StakeParams) => Promise<StakeInstruction>;
+
+export async function stake(
+  { amount, duration }: StakeParams,
+  { config, deps, client, getRequiredWallet, getStakeAccounts, getNosATA }: InstructionsHelperParams
+): Promise<StakeInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const baseUnits = getStakeAmount(amount);
+    const seconds = getDurationSeconds(duration);
+    assertStakeDuration(seconds);
+
+    const [{ stake, vault }, associatedTokenAddress] = await Promise.all([
+      getStakeAccounts(wallet.address),
+      getNosATA(wallet.address),
+    ]);
+
+    // Create the stake instruction, which opens the stake and vault accounts
+    return client.getStakeInstruction(
+      {
+        mint: config.nosTokenAddress,
+        user: associatedTokenAddress,
+        vault,
+        stake,
+        authority: wallet,
+        amount: baseUnits,
+        duration: seconds,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create stake instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,58 @@
+import type { getTopupInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertUnstaked, getStakeAmount } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type TopupParams = {
+  /**
+   * Amount to add to the stake in NOS
+   */
+  amount: number;
+};
+
+export type TopupInstruction = ReturnType<typeof getTopupInstruction>;
+
+export type Topup = (params: TopupParams) => Promise<TopupInstruction>;
+
+export async function topup(
+  { amount }: TopupParams,
+  {
+    config,
+    deps,
+    client,
+    get,
+    getRequiredWallet,
+    getStakeAccounts,
+    getNosATA,
+  }: InstructionsHelperParams
+): Promise<TopupInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const baseUnits = getStakeAmount(amount);
+
+    const [{ stake, vault }, associatedTokenAddress] = await Promise.all([
+      getStakeAccounts(wallet.address),
+      getNosATA(wallet.address),
+    ]);
+    assertUnstaked(await get(stake), false, 'top up');
+
+    // Create the topup instruction
+    return client.getTopupInstruction(
+      {
+        user: associatedTokenAddress,
+        vault,
+        stake,
+        authority: wallet,
+        amount: baseUnits,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create topup instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
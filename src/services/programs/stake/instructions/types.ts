@@ -0,0 +1,21 @@
+import type { Address } from '@solana/kit';
+import type { ProgramConfig } from '../../../../config/index.js';
+import type { ProgramDeps, Wallet } from '../../../../types.js';
+import type { StakeProgram } from '../StakeProgram.js';
+import type { TokenService } from '../../../../services/token/index.js';
+import * as programClient from '../../../../generated_clients/staking/index.js';
+
+export type InstructionsHelperParams = {
+  deps: ProgramDeps;
+  config: ProgramConfig;
+  client: typeof programClient;
+  get: StakeProgram['get'];
+  getSettings: StakeProgram['settings'];
+  getSettingsPda: () => Promise<Address>;
+  getRequiredWallet: () => Wallet;
+  /**
+   * Derive the stake and vault PDAs of an authority
+   */
+  getStakeAccounts: (authority: Address) => Promise<{ stake: Address; vault: Address }>;
+  getNosATA: TokenService['getATA'];
+};
@@ -0,0 +1,43 @@
+import type { getUnstakeInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertUnstaked } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type UnstakeInstruction = ReturnType<typeof getUnstakeInstruction>;
+
+export type Unstake = () => Promise<UnstakeInstruction>;
+
+export async function unstake({
+  config,
+  deps,
+  client,
+  get,
+  getRequiredWallet,
+  getStakeAccounts,
+}: InstructionsHelperParams): Promise<UnstakeInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const [{ stake }, reward] = await Promise.all([
+      getStakeAccounts(wallet.address),
+      deps.solana.pda(['reward', wallet.address], config.rewardsAddress),
+    ]);
+    assertUnstaked(await get(stake), false, 'unstake');
+
+    // Create the unstake instruction, which starts the release of the staked tokens
+    return client.getUnstakeInstruction(
+      {
+        stake,
+        reward,
+        authority: wallet,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create unstake instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,51 @@
+import type { Address } from '@solana/kit';
+import type { getUpdateSettingsInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertSettingsAuthority } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type UpdateStakeSettingsParams = {
+  /**
+   * New authority allowed to slash and update the settings
+   */
+  newAuthority?: Address;
+  /**
+   * Token account where slashed tokens go
+   */
+  tokenAccount?: Address;
+};
+
+export type UpdateStakeSettingsInstruction = ReturnType<typeof getUpdateSettingsInstruction>;
+
+export type UpdateStakeSettings = (
+  params: UpdateStakeSettingsParams
+) => Promise<UpdateStakeSettingsInstruction>;
+
+export async function updateSettings(
+  { newAuthority, tokenAccount }: UpdateStakeSettingsParams,
+  { config, deps, client, getSettings, getSettingsPda, getRequiredWallet }: InstructionsHelperParams
+): Promise<UpdateStakeSettingsInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const [current, settingsPda] = await Promise.all([getSettings(), getSettingsPda()]);
+    assertSettingsAuthority(current, wallet.address, 'update settings');
+
+    // The program overwrites both settings, so keep the current values for omitted params
+    return client.getUpdateSettingsInstruction(
+      {
+        newAuthority: newAuthority ?? current.authority,
+        tokenAccount: tokenAccount ?? current.tokenAccount,
+        settings: settingsPda,
+        authority: wallet,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create updateSettings instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,96 @@
+import { ErrorCodes, NosanaError } from '../../../../errors/NosanaError.js';
+import { convertNosToBaseUnits, SECONDS_PER_DAY } from '../../../../utils/index.js';
+import type { Address } from '@solana/kit';
+import type { Stake, StakeSettings } from '../StakeProgram.js';
+import { STAKE_DURATION_MAX, STAKE_DURATION_MIN } from './duration.js';
+
+/**
+ * Convert a NOS amount to base units, rejecting zero amounts.
+ *
+ * @throws NosanaError with VALIDATION_ERROR code if the amount is not positive
+ */
+export function getStakeAmount(amount: number): bigint {
+  const baseUnits = convertNosToBaseUnits(amount);
+  if (baseUnits <= 0n) {
+    throw new NosanaError(
+      `Invalid stake amount: ${amount}. Amount must be greater than 0 NOS.`,
+      ErrorCodes.VALIDATION_ERROR,
+      { amount }
+    );
+  }
+  return baseUnits;
+}
+
+/**
+ * Assert that a duration lies within the limits of the staking program.
+ *
+ * @param seconds The duration of the stake in seconds
+ * @throws NosanaError with VALIDATION_ERROR code if the duration is too short or too long
+ */
+export function assertStakeDuration(seconds: bigint): void {
+  if (seconds < BigInt(STAKE_DURATION_MIN) || seconds > BigInt(STAKE_DURATION_MAX)) {
+    throw new NosanaError(
+      `Invalid stake duration: ${seconds} seconds, expected between ${STAKE_DURATION_MIN / SECONDS_PER_DAY} and ${STAKE_DURATION_MAX / SECONDS_PER_DAY} days`,
+      ErrorCodes.VALIDATION_ERROR,
+      { duration: seconds, min: STAKE_DURATION_MIN, max: STAKE_DURATION_MAX }
+    );
+  }
+}
+
+/**
+ * Assert that a stake is, or is not, unstaked.
+ *
+ * @param stake The stake to check
+ * @param unstaked Whether the instruction requires an unstaked stake
+ * @param action Name of the instruction, used in the error message
+ * @throws NosanaError with VALIDATION_ERROR code if the stake is in the wrong state
+ */
+export function assertUnstaked(stake: Stake, unstaked: boolean, action: string): void {
+  if ((Number(stake.timeUnstake) !== 0) !== unstaked) {
+    throw new NosanaError(
+      `Cannot ${action} stake ${stake.address}, it is ${unstaked ? 'not unstaked' : 'already unstaked'}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { stake: stake.address, timeUnstake: stake.timeUnstake }
+    );
+  }
+}
+
+/**
+ * Assert that the duration of an unstaked stake has passed, so its tokens are released.
+ *
+ * @param stake The unstaked stake to check
+ * @param action Name of the instruction, used in the error message
+ * @throws NosanaError with VALIDATION_ERROR code if the stake is still locked
+ */
+export function assertUnlocked(stake: Stake, action: string): void {
+  const unlockTime = Number(stake.timeUnstake) + Number(stake.duration);
+  if (Date.now() / 1000 < unlockTime) {
+    throw new NosanaError(
+      `Cannot ${action} stake ${stake.address}, it is locked until ${new Date(unlockTime * 1000).toISOString()}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { stake: stake.address, unlockTime }
+    );
+  }
+}
+
+/**
+ * Assert that the wallet is the authority of the staking program settings.
+ *
+ * @param settings The settings of the staking program
+ * @param wallet Address of the signing wallet
+ * @param action Name of the instruction, used in the error message
+ * @throws NosanaError with VALIDATION_ERROR code if the wallet is not the settings authority
+ */
+export function assertSettingsAuthority(
+  settings: StakeSettings,
+  wallet: Address,
+  action: string
+): void {
+  if (settings.authority !== wallet) {
+    throw new NosanaError(
+      `Cannot ${action}, wallet ${wallet} is not the staking settings authority ${settings.authority}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { wallet, authority: settings.authority }
+    );
+  }
+}
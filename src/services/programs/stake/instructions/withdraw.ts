@@ -0,0 +1,45 @@
+import type { getWithdrawInstruction } from '../../../../generated_clients/staking/index.js';
+import { NosanaError } from '../../../../errors/NosanaError.js';
+import { assertUnstaked } from './validation.js';
+import type { InstructionsHelperParams } from './types.js';
+
+export type WithdrawInstruction = ReturnType<typeof getWithdrawInstruction>;
+
+export type Withdraw = () => Promise<WithdrawInstruction>;
+
+export async function withdraw({
+  config,
+  deps,
+  client,
+  get,
+  getRequiredWallet,
+  getStakeAccounts,
+  getNosATA,
+}: InstructionsHelperParams): Promise<WithdrawInstruction> {
+  try {
+    const wallet = getRequiredWallet();
+    const [{ stake, vault }, associatedTokenAddress] = await Promise.all([
+      getStakeAccounts(wallet.address),
+      getNosATA(wallet.address),
+    ]);
+    assertUnstaked(await get(stake), true, 'withdraw from');
+
+    // Create the withdraw instruction, the program releases the tokens unlocked so far
+    return client.getWithdrawInstruction(
+      {
+        user: associatedTokenAddress,
+        vault,
+        stake,
+        authority: wallet,
+      },
+      {
+        programAddress: config.stakeAddress,
+      }
+    );
+  } catch (err) {
+    if (err instanceof NosanaError) throw err;
+    const errorMessage = `Failed to create withdraw instruction: ${err instanceof Error ? err.message : String(err)}`;
+    deps.logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,401 @@
+import { getBase64Decoder, parseBase64RpcAccount } from '@solana/kit';
+import type {
+  Account,
+  AccountInfoBase,
+  AccountInfoWithBase64EncodedData,
+  Address,
+  GetProgramAccountsMemcmpFilter,
+} from '@solana/kit';
+import type { ProgramDeps } from '../../../types.js';
+import type { ProgramConfig } from '../../../config/types.js';
+import * as programClient from '../../../generated_clients/staking/index.js';
+import {
+  createMemcmpFilter,
+  DEFAULT_TRANSPORT_CONFIG,
+  getAccountFieldOffsets,
+  getReconnectOptions,
+  runMonitorConnection,
+  sleep,
+} from '../../../utils/index.js';
+import type { MonitorOptions } from '../jobs/monitor/types.js';
+import type { Stake } from './StakeProgram.js';
+
+/**
+ * Stake event type constants
+ * @group @nosana/kit
+ */
+export const StakeEventType = {
+  CREATED: 'StakeCreated',
+  TOPPED_UP: 'StakeToppedUp',
+  EXTENDED: 'StakeExtended',
+  UNSTAKED: 'StakeUnstaked',
+  RESTAKED: 'StakeRestaked',
+  SLASHED: 'StakeSlashed',
+  CLOSED: 'StakeClosed',
+} as const;
+
+export type StakeEventType = (typeof StakeEventType)[keyof typeof StakeEventType];
+
+/**
+ * A change of a stake between two observed snapshots.
+ * `before` is null for a new stake, `after` is null once the stake is closed.
+ * @group @nosana/kit
+ */
+export type StakeEvent =
+  | { type: typeof StakeEventType.CREATED; stake: Address; before: null; after: Stake }
+  | {
+      type:
+        | typeof StakeEventType.TOPPED_UP
+        | typeof StakeEventType.EXTENDED
+        | typeof StakeEventType.UNSTAKED
+        | typeof StakeEventType.RESTAKED
+        | typeof StakeEventType.SLASHED;
+      stake: Address;
+      before: Stake;
+      after: Stake;
+    }
+  | { type: typeof StakeEventType.CLOSED; stake: Address; before: Stake; after: null };
+
+/**
+ * Filters for monitoring stake accounts
+ * @group @nosana/kit
+ */
+export type StakeMonitorFilters = {
+  /**
+   * Only monitor the stake of this authority
+   */
+  authority?: Address;
+};
+
+export type StakeMonitor = (
+  filters?: StakeMonitorFilters,
+  options?: MonitorOptions
+) => Promise<[AsyncIterable<StakeEvent>, () => void]>;
+
+export interface StakeMonitorDeps {
+  deps: ProgramDeps;
+  config: ProgramConfig;
+  client: typeof programClient;
+  transformStakeAccount: (stakeAccount: Account<programClient.StakeAccount>) => Stake;
+}
+
+// Maximum number of accounts per getMultipleAccounts request
+const MULTIPLE_ACCOUNTS_BATCH_SIZE = 100;
+
+type StakeUpdate = {
+  slot: bigint;
+  address: Address;
+  stake: Stake | null;
+  /**
+   * Base64 of the changing fields of the stake account, compared with sliced fetches
+   */
+  fingerprint?: string;
+};
+
+function isUnstaked(stake: Stake): boolean {
+  return Number(stake.timeUnstake) !== 0;
+}
+
+/**
+ * Compare two snapshots of a stake and list the events between them
+ */
+function getStakeEvents(before: Stake | null, after: Stake | null): StakeEvent[] {
+  if (!before) {
+    return after ? [{ type: StakeEventType.CREATED, stake: after.address, before, after }] : [];
+  }
+  if (!after) {
+    return [{ type: StakeEventType.CLOSED, stake: before.address, before, after }];
+  }
+
+  const stake = after.address;
+  const events: StakeEvent[] = [];
+  if (!isUnstaked(before) && isUnstaked(after)) {
+    events.push({ type: StakeEventType.UNSTAKED, stake, before, after });
+  } else if (isUnstaked(before) && !isUnstaked(after)) {
+    events.push({ type: StakeEventType.RESTAKED, stake, before, after });
+  }
+  if (BigInt(after.amount) > BigInt(before.amount)) {
+    events.push({ type: StakeEventType.TOPPED_UP, stake, before, after });
+  } else if (BigInt(after.amount) < BigInt(before.amount) && !isUnstaked(after)) {
+    // Withdrawals only happen after an unstake, a staked amount can only shrink by a slash
+    events.push({ type: StakeEventType.SLASHED, stake, before, after });
+  }
+  if (BigInt(after.duration) > BigInt(before.duration)) {
+    events.push({ type: StakeEventType.EXTENDED, stake, before, after });
+  }
+  return events;
+}
+
+/**
+ * Memcmp filters matching the monitored stake accounts
+ */
+function getStakeFilters(
+  filters: StakeMonitorFilters | undefined,
+  client: typeof programClient
+): GetProgramAccountsMemcmpFilter[] {
+  const memcmpFilters = [createMemcmpFilter(0, client.STAKE_ACCOUNT_DISCRIMINATOR)];
+  if (filters?.authority) {
+    const offsets = getAccountFieldOffsets(client.getStakeAccountDecoder());
+    memcmpFilters.push(createMemcmpFilter(offsets.authority, filters.authority));
+  }
+  return memcmpFilters;
+}
+
+/**
+ * Monitor stake accounts and emit an event for every change between snapshots.
+ *
+ * Stakes are followed with a program subscription. Closed accounts leave the program
+ * without a program notification, and a stake can only be closed once unstaked, so the
+ * unstaked stakes are checked with batched getMultipleAccounts requests every poll interval.
+ * The stakes are fetched in full once, as the baseline when the monitor first connects.
+ * After that, reconnect backfills and polls only fetch the changing fields of every stake,
+ * and fetch the stakes whose fields differ from the known stakes in full.
+ */
+export async function monitor(
+  filters: StakeMonitorFilters | undefined,
+  options: MonitorOptions,
+  { deps, config, client, transformStakeAccount }: StakeMonitorDeps
+): Promise<[AsyncIterable<StakeEvent>, () => void]> {
+  const reconnect = getReconnectOptions(options.reconnect);
+  const transport = { ...DEFAULT_TRANSPORT_CONFIG, ...deps.solana.config?.monitor };
+  const memcmpFilters = getStakeFilters(filters, client);
+
+  // Fields that change over the lifetime of a stake, from the amount up to the vault
+  const offsets = getAccountFieldOffsets(client.getStakeAccountDecoder());
+  const changingFields = { offset: offsets.amount, length: offsets.vault - offsets.amount };
+
+  const stopController = new AbortController();
+  const stopMonitoring = () => {
+    stopController.abort();
+    deps.logger.info(`Stopped monitoring stake program account updates`);
+  };
+
+  const parseStake = (
+    slot: bigint,
+    address: Address,
+    account: AccountInfoBase & AccountInfoWithBase64EncodedData
+  ): StakeUpdate => {
+    const encodedAccount = parseBase64RpcAccount(address, account);
+    const { offset, length } = changingFields;
+    return {
+      slot,
+      address,
+      stake: transformStakeAccount(client.decodeStakeAccount(encodedAccount)),
+      fingerprint: getBase64Decoder().decode(encodedAccount.data.subarray(offset, offset + length)),
+    };
+  };
+
+  /**
+   * Fetch every monitored stake in full
+   */
+  async function fetchSnapshot(): Promise<StakeUpdate[]> {
+    const { context, value } = await deps.solana.rpc
+      .getProgramAccounts(config.stakeAddress, {
+        encoding: 'base64',
+        filters: memcmpFilters,
+        withContext: true,
+      })
+      .send();
+    const updates: StakeUpdate[] = [];
+    for (const { pubkey, account } of value) {
+      try {
+        updates.push(parseStake(context.slot, pubkey, account));
+      } catch (error) {
+        deps.logger.error(`Failed to decode stake ${pubkey}: ${error}`);
+      }
+    }
+    return updates;
+  }
+
+  /**
+   * Fetch the given stakes in full, in batches. Missing accounts are closed stakes.
+   */
+  async function fetchStakes(addresses: Address[]): Promise<StakeUpdate[]> {
+    const updates: StakeUpdate[] = [];
+    for (let i = 0; i < addresses.length; i += MULTIPLE_ACCOUNTS_BATCH_SIZE) {
+      const batch = addresses.slice(i, i + MULTIPLE_ACCOUNTS_BATCH_SIZE);
+      const { context, value } = await deps.solana.rpc
+        .getMultipleAccounts(batch, { encoding: 'base64' })
+        .send();
+      value.forEach((account, index) => {
+        const address = batch[index];
+        if (!account) {
+          updates.push({ slot: context.slot, address, stake: null });
+          return;
+        }
+        try {
+          updates.push(parseStake(context.slot, address, account));
+        } catch (error) {
+          deps.logger.error(`Failed to decode stake ${address}: ${error}`);
+        }
+      });
+    }
+    return updates;
+  }
+
+  // Last known state of every monitored stake, and the slot it was observed at
+  const stakes = new Map<Address, Stake>();
+  const fingerprints = new Map<Address, string>();
+  const slots = new Map<Address, bigint>();
+
+  /**
+   * Find the stakes that were created, changed or closed since they were last seen.
+   * Only the changing fields of every stake are listed, the new and changed stakes are then
+   * fetched in full.
+   */
+  async function fetchChanges(): Promise<StakeUpdate[]> {
+    const { context, value } = await deps.solana.rpc
+      .getProgramAccounts(config.stakeAddress, {
+        encoding: 'base64',
+        filters: memcmpFilters,
+        dataSlice: changingFields,
+        withContext: true,
+      })
+      .send();
+    const listed = new Set(value.map(({ pubkey }) => pubkey));
+    const closed: StakeUpdate[] = [...stakes.keys()]
+      .filter((address) => !listed.has(address))
+      .map((address) => ({ slot: context.slot, address, stake: null }));
+    const changed = value
+      .filter(({ pubkey, account }) => fingerprints.get(pubkey) !== account.data[0])
+      .map(({ pubkey }) => pubkey);
+    return [...closed, ...(await fetchStakes(changed))];
+  }
+
+  function* applyUpdate({ slot, address, stake, fingerprint }: StakeUpdate): Generator<StakeEvent> {
+    if ((slots.get(address) ?? -1n) > slot) return;
+    const before = stakes.get(address) ?? null;
+    slots.set(address, slot);
+    if (stake) {
+      stakes.set(address, stake);
+      if (fingerprint !== undefined) fingerprints.set(address, fingerprint);
+    } else {
+      stakes.delete(address);
+      fingerprints.delete(address);
+    }
+    yield* getStakeEvents(before, stake);
+  }
+
+  function* applyUpdates(updates: StakeUpdate[], emit: boolean): Generator<StakeEvent> {
+    for (const update of updates) {
+      const events = [...applyUpdate(update)];
+      if (emit) yield* events;
+    }
+  }
+
+  async function* createPollingStream(hasConnected: boolean): AsyncGenerator<StakeEvent> {
+    // Changes missed since the subscription dropped are only emitted when backfilling
+    let emit = hasConnected && options.backfill !== false;
+    let hasBaseline = hasConnected;
+    while (!stopController.signal.aborted) {
+      try {
+        if (hasBaseline) {
+          yield* applyUpdates(await fetchChanges(), emit);
+        } else {
+          yield* applyUpdates(await fetchSnapshot(), false);
+          hasBaseline = true;
+        }
+        emit = true;
+      } catch (error) {
+        deps.logger.warn(`Polling stake accounts failed: ${error}`);
+      }
+      await sleep(transport.pollIntervalMs, stopController.signal);
+    }
+  }
+
+  async function* createSubscriptionStream(
+    signal: AbortSignal,
+    hasConnected: boolean,
+    onConnected: () => void
+  ): AsyncGenerator<StakeEvent> {
+    const updates: StakeUpdate[] = [];
+    let failure: unknown;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+    const fail = (error: unknown) => {
+      failure ??= error;
+      notify();
+    };
+
+    // Forward notifications in the background, any failure ends the connection
+    const consume = async <T>(iterable: AsyncIterable<T>, handle: (notification: T) => void) => {
+      try {
+        for await (const notification of iterable) {
+          try {
+            handle(notification);
+          } catch (error) {
+            deps.logger.error(`Error handling stake account notification: ${error}`);
+          }
+          notify();
+        }
+        fail(new Error('subscription closed'));
+      } catch (error) {
+        fail(error);
+      }
+    };
+
+    // Only unstaked stakes can be closed, check those for closes
+    const checkCloses = async () => {
+      while (!signal.aborted) {
+        await sleep(transport.pollIntervalMs, signal);
+        if (signal.aborted) return;
+        try {
+          const unstaked = [...stakes.values()].filter(isUnstaked).map(({ address }) => address);
+          const closed = (await fetchStakes(unstaked)).filter(({ stake }) => !stake);
+          updates.push(...closed);
+          notify();
+        } catch (error) {
+          deps.logger.warn(`Checking unstaked stakes for closes failed: ${error}`);
+        }
+      }
+    };
+
+    // Subscribe before fetching, so no update is lost in between
+    const notifications = await deps.solana.rpcSubscriptions
+      .programNotifications(config.stakeAddress, { encoding: 'base64', filters: memcmpFilters })
+      .subscribe({ abortSignal: signal });
+    void consume(notifications, ({ context, value }) => {
+      updates.push(parseStake(context.slot, value.pubkey, value.account));
+    });
+
+    const backfill = hasConnected && options.backfill !== false;
+    const missed = !hasConnected ? await fetchSnapshot() : backfill ? await fetchChanges() : [];
+
+    onConnected();
+    yield* applyUpdates(missed, backfill);
+    void checkCloses();
+
+    while (!signal.aborted) {
+      const update = updates.shift();
+      if (!update) {
+        if (failure) throw failure;
+        await new Promise<void>((resolve) => (wake = resolve));
+        continue;
+      }
+      yield* applyUpdate(update);
+    }
+  }
+
+  const eventStream = runMonitorConnection<StakeEvent>(
+    {
+      name: 'stake',
+      connect: ({ signal, hasConnected, onConnected }) =>
+        createSubscriptionStream(signal, hasConnected, onConnected),
+      poll: (hasConnected) => createPollingStream(hasConnected),
+    },
+    {
+      reconnect,
+      transport,
+      signal: stopController.signal,
+      logger: deps.logger,
+      onConnectionStateChange: options.onConnectionStateChange,
+    }
+  );
+
+  deps.logger.info(`Successfully started monitoring stake program account updates`);
+
+  return [eventStream, stopMonitoring];
+}
@@ -0,0 +1,220 @@
+import {
+  getAddressDecoder,
+  getBase64Encoder,
+  getI64Decoder,
+  getStructDecoder,
+  getU64Decoder,
+  type Address,
+} from '@solana/kit';
+import { ErrorCodes, NosanaError } from '../../../errors/NosanaError.js';
+import type { ProgramConfig } from '../../../config/types.js';
+import type { ProgramDeps } from '../../../types.js';
+import * as programClient from '../../../generated_clients/staking/index.js';
+import {
+  convertBaseUnitsToNos,
+  createMemcmpFilter,
+  getAccountFieldOffsets,
+  SECONDS_PER_DAY,
+} from '../../../utils/index.js';
+import type { StakeProgram } from './StakeProgram.js';
+import { getXnos } from './xnos.js';
+
+const DEFAULT_TOP_N = 10;
+const DEFAULT_DURATION_BUCKETS = [0, 30, 90, 180, 270, 365];
+
+export type StakeStatsOptions = {
+  /**
+   * Number of largest stakes to return, defaults to 10
+   */
+  topN?: number;
+  /**
+   * Lower bounds of the duration histogram buckets in days, defaults to [0, 30, 90, 180, 270, 365]
+   */
+  durationBuckets?: number[];
+  /**
+   * Only fetch the amount, authority, duration and unstake time of each stake, less than
+   * half of the account data. xNOS is then recomputed with the staking program's formula.
+   */
+  dataSlice?: boolean;
+};
+
+export type StakeDurationBucket = {
+  /**
+   * Shortest duration in the bucket in days, inclusive
+   */
+  minDays: number;
+  /**
+   * Longest duration in the bucket in days, exclusive, or null for the last bucket
+   */
+  maxDays: number | null;
+  /**
+   * Number of stakes in the bucket
+   */
+  count: number;
+  /**
+   * Staked NOS in the bucket
+   */
+  amount: number;
+};
+
+export type TopStaker = {
+  address: Address;
+  authority: Address;
+  /**
+   * Staked NOS
+   */
+  amount: number;
+  xnos: number;
+};
+
+export type StakeStats = {
+  /**
+   * Total staked NOS, including unstaking stakes
+   */
+  totalStaked: number;
+  /**
+   * Total xNOS, unstaking stakes have none
+   */
+  totalXnos: number;
+  activeCount: number;
+  unstakingCount: number;
+  durationHistogram: StakeDurationBucket[];
+  /**
+   * Largest stakes by staked amount
+   */
+  topStakers: TopStaker[];
+};
+
+export type GetStakeStats = (options?: StakeStatsOptions) => Promise<StakeStats>;
+
+export interface StakeStatsHelperParams {
+  deps: ProgramDeps;
+  config: ProgramConfig;
+  client: typeof programClient;
+  all: StakeProgram['all'];
+}
+
+type StakeStatsEntry = {
+  address: Address;
+  authority: Address;
+  amount: bigint;
+  duration: bigint;
+  timeUnstake: bigint;
+  xnos: bigint;
+};
+
+/**
+ * Fetch the fields of every stake needed for the statistics with a single data slice,
+ * from the amount up to the unstake time.
+ */
+async function fetchSlicedStakes(
+  deps: ProgramDeps,
+  config: ProgramConfig,
+  client: typeof programClient
+): Promise<StakeStatsEntry[]> {
+  const offsets = getAccountFieldOffsets(client.getStakeAccountDecoder());
+  const decoder = getStructDecoder([
+    ['amount', getU64Decoder()],
+    ['authority', getAddressDecoder()],
+    ['duration', getU64Decoder()],
+    ['timeUnstake', getI64Decoder()],
+  ]);
+
+  const response = await deps.solana.rpc
+    .getProgramAccounts(config.stakeAddress, {
+      encoding: 'base64',
+      dataSlice: { offset: offsets.amount, length: offsets.vault - offsets.amount },
+      filters: [createMemcmpFilter(0, client.STAKE_ACCOUNT_DISCRIMINATOR)],
+    })
+    .send();
+
+  return response.map(({ pubkey, account }: (typeof response)[0]) => {
+    const fields = decoder.decode(getBase64Encoder().encode(account.data[0]));
+    return {
+      address: pubkey,
+      ...fields,
+      xnos: fields.timeUnstake === 0n ? getXnos(fields.amount, fields.duration) : 0n,
+    };
+  });
+}
+
+/**
+ * Aggregate statistics over all stake accounts
+ */
+export async function stats(
+  {
+    topN = DEFAULT_TOP_N,
+    durationBuckets = DEFAULT_DURATION_BUCKETS,
+    dataSlice = false,
+  }: StakeStatsOptions,
+  { deps, config, client, all }: StakeStatsHelperParams
+): Promise<StakeStats> {
+  const bounds = [...durationBuckets].sort((a, b) => a - b);
+  if (bounds.length === 0 || !Number.isInteger(topN) || topN < 0) {
+    throw new NosanaError(
+      'Stake stats need at least one duration bucket and a non-negative integer topN',
+      ErrorCodes.VALIDATION_ERROR,
+      { topN, durationBuckets }
+    );
+  }
+
+  const entries: StakeStatsEntry[] = dataSlice
+    ? await fetchSlicedStakes(deps, config, client)
+    : (await all()).map((stake) => ({
+        address: stake.address,
+        authority: stake.authority,
+        amount: BigInt(stake.amount),
+        duration: BigInt(stake.duration),
+        timeUnstake: BigInt(stake.timeUnstake),
+        xnos: BigInt(stake.xnos),
+      }));
+
+  let totalStaked = 0n;
+  let totalXnos = 0n;
+  let unstakingCount = 0;
+  const buckets = bounds.map((minDays, i) => ({
+    minDays,
+    maxDays: bounds[i + 1] ?? null,
+    count: 0,
+    amount: 0n,
+  }));
+
+  for (const entry of entries) {
+    totalStaked += entry.amount;
+    totalXnos += entry.xnos;
+    if (entry.timeUnstake !== 0n) {
+      unstakingCount += 1;
+    }
+
+    const days = Number(entry.duration) / SECONDS_PER_DAY;
+    // Durations below the first bound are counted in the first bucket
+    let bucket = buckets[0];
+    for (const candidate of buckets) {
+      if (candidate.minDays <= days) bucket = candidate;
+    }
+    bucket.count += 1;
+    bucket.amount += entry.amount;
+  }
+
+  const topStakers = [...entries]
+    .sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1))
+    .slice(0, topN)
+    .map(({ address, authority, amount, xnos }) => ({
+      address,
+      authority,
+      amount: convertBaseUnitsToNos(amount),
+      xnos: convertBaseUnitsToNos(xnos),
+    }));
+
+  return {
+    totalStaked: convertBaseUnitsToNos(totalStaked),
+    totalXnos: convertBaseUnitsToNos(totalXnos),
+    activeCount: entries.length - unstakingCount,
+    unstakingCount,
+    durationHistogram: buckets.map((bucket) => ({
+      ...bucket,
+      amount: convertBaseUnitsToNos(bucket.amount),
+    })),
+    topStakers,
+  };
+}
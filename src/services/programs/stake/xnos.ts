@@ -0,0 +1,109 @@
+import {
+  convertBaseUnitsToNos,
+  convertNosToBaseUnits,
+  SECONDS_PER_DAY,
+} from '../../../utils/index.js';
+import type { Stake } from './StakeProgram.js';
+import { getDurationSeconds, type StakeDuration } from './instructions/duration.js';
+import { assertStakeDuration, assertUnstaked } from './instructions/validation.js';
+
+// The staking program computes the multiplier in fixed point with 15 decimals
+const XNOS_PRECISION = BigInt(10) ** BigInt(15);
+// Each 4 months (121⅔ days) of stake duration adds 1 to the multiplier, up to 4 for a year
+const XNOS_DIV = BigInt((4 * 365 * SECONDS_PER_DAY) / 12);
+
+export type XnosProjectionParams = {
+  /**
+   * Duration added by an extend
+   */
+  extendBy?: StakeDuration;
+  /**
+   * NOS added by a topup
+   */
+  topupBy?: number;
+};
+
+export type XnosProjection = {
+  /**
+   * Staked amount after the changes, in NOS
+   */
+  amount: number;
+  /**
+   * Stake duration after the changes, in seconds
+   */
+  duration: number;
+  /**
+   * xNOS of the stake after the changes
+   */
+  xnos: number;
+  /**
+   * Change of the xNOS compared to the current stake
+   */
+  xnosIncrease: number;
+};
+
+export type ComputeXnos = (amount: number, duration: StakeDuration) => number;
+
+export type ProjectXnos = (stake: Stake, params: XnosProjectionParams) => XnosProjection;
+
+export type UnlockTime = (stake: Stake) => Date | null;
+
+/**
+ * Compute xNOS in base units the way the staking program does:
+ * xnos = (duration / XNOS_DIV + 1) * amount, with the multiplier rounded down to 15 decimals
+ */
+export function getXnos(amount: bigint, duration: bigint): bigint {
+  return (((duration * XNOS_PRECISION) / XNOS_DIV + XNOS_PRECISION) * amount) / XNOS_PRECISION;
+}
+
+/**
+ * Compute the xNOS a stake of an amount of NOS for a duration would receive
+ *
+ * @throws NosanaError with VALIDATION_ERROR code if the duration is outside the staking limits
+ */
+export function computeXnos(amount: number, duration: StakeDuration): number {
+  const seconds = getDurationSeconds(duration);
+  assertStakeDuration(seconds);
+  return convertBaseUnitsToNos(getXnos(convertNosToBaseUnits(amount), seconds));
+}
+
+/**
+ * Project the xNOS of a stake after a topup and/or an extension
+ *
+ * @throws NosanaError with VALIDATION_ERROR code if the stake is unstaked or the
+ * extended duration exceeds the staking limits
+ */
+export function projectXnos(
+  stake: Stake,
+  { extendBy, topupBy }: XnosProjectionParams
+): XnosProjection {
+  assertUnstaked(stake, false, 'project xNOS of');
+
+  let amount = BigInt(stake.amount);
+  let duration = BigInt(stake.duration);
+  if (topupBy !== undefined) {
+    amount += convertNosToBaseUnits(topupBy);
+  }
+  if (extendBy !== undefined) {
+    duration += getDurationSeconds(extendBy);
+    assertStakeDuration(duration);
+  }
+
+  const xnos = getXnos(amount, duration);
+  return {
+    amount: convertBaseUnitsToNos(amount),
+    duration: Number(duration),
+    xnos: convertBaseUnitsToNos(xnos),
+    xnosIncrease: convertBaseUnitsToNos(xnos - BigInt(stake.xnos)),
+  };
+}
+
+/**
+ * Time at which an unstaked stake is fully released, or null while it is still staked
+ */
+export function unlockTime(stake: Stake): Date | null {
+  if (Number(stake.timeUnstake) === 0) {
+    return null;
+  }
+  return new Date((Number(stake.timeUnstake) + Number(stake.duration)) * 1000);
+}
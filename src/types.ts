@@ -1,4 +1,5 @@
 import { TransactionSigner, MessageSigner } from '@solana/kit';
+import type { createIpfsClient } from '@nosana/ipfs';
 import type { SolanaService } from './services/solana/index.js';
 import type { TokenService } from './services/token/index.js';
 import { Logger } from './logger/Logger.js';
@@ -19,5 +20,6 @@ export interface ProgramDeps {
   logger: Logger;
   solana: SolanaService;
   nos: TokenService;
+  ipfs: ReturnType<typeof createIpfsClient>;
   getWallet: () => Wallet | undefined;
 }
@@ -0,0 +1,45 @@
+import { NosanaError, ErrorCodes } from '../errors/NosanaError.js';
+
+/**
+ * Number of decimals of the NOS token
+ */
+export const NOS_DECIMALS = 6;
+
+/**
+ * Converts an amount in NOS to token base units.
+ *
+ * @param amount Amount in NOS, may be fractional
+ * @returns The amount in base units
+ * @throws NosanaError if the amount is negative or not a finite number
+ *
+ * @example
+ * ```ts
+ * convertNosToBaseUnits(1.5)
+ * // Returns: 1500000n
+ * ```
+ */
+export function convertNosToBaseUnits(amount: number): bigint {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new NosanaError(
+      `Invalid NOS amount: ${amount}. Amount must be a non-negative number.`,
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+  return BigInt(Math.round(amount * 10 ** NOS_DECIMALS));
+}
+
+/**
+ * Converts an amount in token base units to NOS.
+ *
+ * @param amount Amount in base units
+ * @returns The amount in NOS
+ *
+ * @example
+ * ```ts
+ * convertBaseUnitsToNos(1500000n)
+ * // Returns: 1.5
+ * ```
+ */
+export function convertBaseUnitsToNos(amount: number | bigint): number {
+  return Number(amount) / 10 ** NOS_DECIMALS;
+}
@@ -0,0 +1,28 @@
+import type {
+  Base58EncodedBytes,
+  GetProgramAccountsMemcmpFilter,
+  ReadonlyUint8Array,
+} from '@solana/kit';
+import bs58 from 'bs58';
+
+/**
+ * Build a memcmp filter matching the given bytes, or base58 encoded address, at an account offset
+ *
+ * @param offset - Byte offset in the account data
+ * @param bytes - Raw bytes or a base58 encoded string such as an address
+ * @returns Filter usable with getProgramAccounts and programNotifications
+ */
+export function createMemcmpFilter(
+  offset: number,
+  bytes: ReadonlyUint8Array | string
+): GetProgramAccountsMemcmpFilter {
+  return {
+    memcmp: {
+      offset: BigInt(offset),
+      bytes: (typeof bytes === 'string'
+        ? bytes
+        : bs58.encode(Uint8Array.from(bytes))) as Base58EncodedBytes,
+      encoding: 'base58',
+    },
+  };
+}
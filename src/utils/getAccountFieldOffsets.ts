@@ -0,0 +1,38 @@
+import type { FixedSizeDecoder } from '@solana/kit';
+
+export type AccountFieldOffsets<T> = { [K in keyof T]: number };
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * Derive the byte offset of every field of a fixed-size account from its generated decoder.
+ * Each byte of an empty account is flipped in turn, the first byte that changes
+ * a decoded field is the offset of that field.
+ *
+ * @param decoder - Generated fixed-size account decoder, e.g. getJobAccountDecoder()
+ * @returns Byte offset of each field, usable in getProgramAccounts memcmp filters
+ */
+export function getAccountFieldOffsets<T extends object>(
+  decoder: FixedSizeDecoder<T>
+): AccountFieldOffsets<T> {
+  const empty = decoder.decode(new Uint8Array(decoder.fixedSize)) as Record<string, unknown>;
+  const offsets: Record<string, number> = {};
+
+  for (let offset = 0; offset < decoder.fixedSize; offset++) {
+    const bytes = new Uint8Array(decoder.fixedSize);
+    bytes[offset] = 1;
+    const decoded = decoder.decode(bytes) as Record<string, unknown>;
+    for (const field of Object.keys(decoded)) {
+      if (!(field in offsets) && !isSameValue(decoded[field], empty[field])) {
+        offsets[field] = offset;
+      }
+    }
+  }
+
+  return offsets as AccountFieldOffsets<T>;
+}
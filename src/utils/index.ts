@@ -1,5 +1,11 @@
 // Barrel export file - exports all utility functions and types
 export * from './convertBigIntToNumber.js';
 export * from './convertHttpToWebSocketUrl.js';
+export * from './convertNosToBaseUnits.js';
+export * from './createMemcmpFilter.js';
+export * from './getAccountFieldOffsets.js';
 export * from './getStaticAccounts.js';
+export * from './mergeAsyncIterables.js';
+export * from './monitorReconnect.js';
+export * from './time.js';
 export * from './walletToAuthorizationSigner.js';
@@ -0,0 +1,30 @@
+/**
+ * Merge multiple async iterables into a single stream, yielding values in the order they arrive.
+ * Ends once every iterable is done, and closes the remaining iterables when it is closed or fails.
+ */
+export async function* mergeAsyncIterables<T>(
+  iterables: AsyncIterable<T>[]
+): AsyncGenerator<T, void, unknown> {
+  if (iterables.length === 1) {
+    yield* iterables[0];
+    return;
+  }
+
+  const iterators = iterables.map((iterable) => iterable[Symbol.asyncIterator]());
+  const next = (index: number) => iterators[index].next().then((result) => ({ index, result }));
+  const pending = new Map(iterators.map((_, index) => [index, next(index)]));
+
+  try {
+    while (pending.size > 0) {
+      const { index, result } = await Promise.race(pending.values());
+      if (result.done) {
+        pending.delete(index);
+      } else {
+        pending.set(index, next(index));
+        yield result.value;
+      }
+    }
+  } finally {
+    await Promise.allSettled(iterators.map((iterator) => iterator.return?.()));
+  }
+}
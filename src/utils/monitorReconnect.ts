@@ -0,0 +1,205 @@
+import {
+  MonitorConnectionState,
+  MonitorTransport,
+  type MonitorConnectionEvent,
+  type MonitorReconnectOptions,
+  type MonitorTransportConfig,
+} from '../config/types.js';
+import { ErrorCodes, NosanaError } from '../errors/NosanaError.js';
+import type { Logger } from '../logger/Logger.js';
+
+/**
+ * Reconnect options of the program monitors when none are given
+ */
+export const DEFAULT_RECONNECT_OPTIONS: Required<MonitorReconnectOptions> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  maxAttempts: Infinity,
+};
+
+/**
+ * Transport of the program monitors when the Solana config doesn't set one
+ */
+export const DEFAULT_TRANSPORT_CONFIG: Required<MonitorTransportConfig> = {
+  transport: MonitorTransport.AUTO,
+  pollIntervalMs: 5000,
+  fallbackAfterFailures: 3,
+};
+
+/**
+ * Apply the default reconnect options and validate the result
+ */
+export function getReconnectOptions(
+  options: MonitorReconnectOptions | undefined
+): Required<MonitorReconnectOptions> {
+  const reconnect = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+  if (reconnect.jitter < 0 || reconnect.jitter > 1) {
+    throw new NosanaError('Reconnect jitter must be between 0 and 1', ErrorCodes.VALIDATION_ERROR, {
+      jitter: reconnect.jitter,
+    });
+  }
+  return reconnect;
+}
+
+/**
+ * Get the exponential backoff delay of a reconnect attempt, starting at attempt 1
+ */
+export function getReconnectDelay(
+  attempt: number,
+  options: Required<MonitorReconnectOptions>
+): number {
+  const delay = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - options.jitter * Math.random()));
+}
+
+/**
+ * Wait for a delay, resolving early when the signal is aborted
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // Remove the listener once the timer fires, the signal outlives every sleep of a monitor
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * The transports of a monitor, driven by runMonitorConnection
+ */
+export interface MonitorConnection<T> {
+  /**
+   * Name of the monitored accounts in log messages
+   */
+  name: string;
+  /**
+   * Subscribe over WebSocket and yield events until the subscription fails or ends.
+   * `hasConnected` tells whether an earlier connection succeeded, so the gap can be backfilled.
+   * `signal` is aborted when the connection ends or the monitor is stopped.
+   */
+  connect: (params: {
+    signal: AbortSignal;
+    hasConnected: boolean;
+    onConnected: () => void;
+  }) => AsyncIterable<T>;
+  /**
+   * Poll over HTTP until the monitor is stopped, once the monitor falls back to polling
+   */
+  poll: (hasConnected: boolean) => AsyncIterable<T>;
+}
+
+export interface MonitorConnectionOptions {
+  reconnect: Required<MonitorReconnectOptions>;
+  transport: Required<MonitorTransportConfig>;
+  /**
+   * Signal that stops the monitor
+   */
+  signal: AbortSignal;
+  logger: Logger;
+  onConnectionStateChange?: (event: MonitorConnectionEvent) => void;
+}
+
+/**
+ * Yield the events of a monitor, reconnecting the WebSocket subscription with exponential backoff
+ * and falling back to HTTP polling after repeated failures when the transport is 'auto'.
+ * Throws a NosanaError with code RPC_ERROR once the reconnect attempts are exhausted.
+ */
+export async function* runMonitorConnection<T>(
+  { name, connect, poll }: MonitorConnection<T>,
+  { reconnect, transport, signal, logger, onConnectionStateChange }: MonitorConnectionOptions
+): AsyncGenerator<T, void, unknown> {
+  const notifyConnectionState = (event: MonitorConnectionEvent) => {
+    try {
+      onConnectionStateChange?.(event);
+    } catch (error) {
+      logger.error(`Error in monitor connection state handler: ${error}`);
+    }
+  };
+
+  let usePolling = transport.transport === MonitorTransport.POLLING;
+  // Number of the current connection attempt, 0 for the initial connection
+  let attempt = 0;
+  let hasConnected = false;
+
+  while (!signal.aborted) {
+    if (usePolling) {
+      logger.info(`Polling ${name} accounts every ${transport.pollIntervalMs}ms`);
+      notifyConnectionState({
+        state: MonitorConnectionState.CONNECTED,
+        attempt,
+        transport: MonitorTransport.POLLING,
+      });
+      yield* poll(hasConnected);
+      return;
+    }
+
+    let error: unknown;
+    const connection = new AbortController();
+    const abortConnection = () => connection.abort();
+    signal.addEventListener('abort', abortConnection, { once: true });
+    try {
+      logger.info(`Attempting to establish the ${name} WebSocket subscription...`);
+      yield* connect({
+        signal: connection.signal,
+        hasConnected,
+        onConnected: () => {
+          logger.info(`Successfully established the ${name} WebSocket subscription`);
+          notifyConnectionState({
+            state: MonitorConnectionState.CONNECTED,
+            attempt,
+            transport: MonitorTransport.WEBSOCKET,
+          });
+          attempt = 0;
+          hasConnected = true;
+        },
+      });
+    } catch (err) {
+      error = err;
+    } finally {
+      signal.removeEventListener('abort', abortConnection);
+      connection.abort();
+    }
+
+    if (signal.aborted) {
+      // Monitoring was stopped, exit gracefully
+      return;
+    }
+
+    logger.warn(`The ${name} WebSocket subscription failed: ${error ?? 'subscription ended'}`);
+    notifyConnectionState({ state: MonitorConnectionState.DISCONNECTED, attempt, error });
+
+    attempt += 1;
+    if (attempt > reconnect.maxAttempts) {
+      throw new NosanaError(
+        `Failed to re-establish the ${name} WebSocket subscription after ${reconnect.maxAttempts} attempts`,
+        ErrorCodes.RPC_ERROR,
+        error
+      );
+    }
+
+    if (
+      transport.transport === MonitorTransport.AUTO &&
+      attempt >= transport.fallbackAfterFailures
+    ) {
+      logger.warn(
+        `The ${name} WebSocket subscription failed ${attempt} times in a row, falling back to HTTP polling`
+      );
+      usePolling = true;
+      continue;
+    }
+
+    const delayMs = getReconnectDelay(attempt, reconnect);
+    notifyConnectionState({ state: MonitorConnectionState.RECONNECTING, attempt, delayMs });
+    logger.info(
+      `Retrying the ${name} WebSocket subscription in ${delayMs}ms (attempt ${attempt})...`
+    );
+    await sleep(delayMs, signal);
+  }
+}
@@ -0,0 +1,4 @@
+/**
+ * Number of seconds in a day, on-chain durations and timestamps are in seconds
+ */
+export const SECONDS_PER_DAY = 86_400;
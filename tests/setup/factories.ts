@@ -221,6 +221,10 @@ export class MockClientFactory {
       nos: {
         getATA: vi.fn().mockResolvedValue(validAddr),
       },
+      ipfs: {
+        pin: vi.fn(),
+        retrieve: vi.fn(),
+      },
       get wallet() {
         return wallet;
       },
@@ -297,6 +301,7 @@ export function sdkToProgramDeps(sdk: NosanaClient): import('../../src/types.js'
     logger: sdk.logger,
     solana: sdk.solana,
     nos: sdk.nos,
+    ipfs: sdk.ipfs,
     getWallet: () => sdk.wallet,
   };
 }
@@ -376,7 +381,7 @@ export class RunAccountFactory {
         node: overrides?.node ?? AddressFactory.create(),
         payer: overrides?.payer ?? AddressFactory.create(),
         state: overrides?.state ?? 0,
-        time: overrides?.time ?? BigInt(Date.now() / 1000),
+        time: overrides?.time ?? BigInt(Math.floor(Date.now() / 1000)),
       },
     } as any;
   }
@@ -407,6 +412,7 @@ export class MarketAccountFactory {
     jobTimeout?: bigint;
     jobType?: bigint;
     queueType?: MarketQueueType;
+    queue?: Address[];
   }): Account<programClient.MarketAccount> {
     const addr = overrides?.address ?? AddressFactory.create();
 
@@ -422,6 +428,7 @@ export class MarketAccountFactory {
         jobTimeout: overrides?.jobTimeout ?? BigInt(200),
         jobType: overrides?.jobType ?? BigInt(1),
         queueType: overrides?.queueType ?? MarketQueueType.NODE_QUEUE,
+        queue: overrides?.queue ?? [],
       },
     } as any;
   }
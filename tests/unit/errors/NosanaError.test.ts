@@ -32,6 +32,9 @@ describe('NosanaError', () => {
       'NO_WALLET',
       'FILE_ERROR',
       'WALLET_CONVERSION_ERROR',
+      'AUTH_ERROR',
+      'TIMEOUT',
+      'INSUFFICIENT_FUNDS',
     ];
 
     expectedCodes.forEach((code) => {
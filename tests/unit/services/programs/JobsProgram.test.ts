@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { type Address } from '@solana/kit';
+import { type Address, getAddressEncoder, getU64Encoder } from '@solana/kit';
+import bs58 from 'bs58';
 import { solBytesArrayToIpfsHash } from '@nosana/ipfs';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
 
 import {
   createJobsProgram,
@@ -9,13 +11,18 @@ import {
   MarketQueueType,
   MonitorEventType,
 } from '../../../../src/services/programs/jobs/index.js';
+import { JobTransitionType } from '../../../../src/services/programs/jobs/watchTransitions.js';
 import * as programClient from '../../../../src/generated_clients/jobs/index.js';
+import * as stakingClient from '../../../../src/generated_clients/staking/index.js';
+import { ErrorCodes } from '../../../../src/errors/NosanaError.js';
 import {
   AddressFactory,
   MockClientFactory,
   JobAccountFactory,
   RunAccountFactory,
   MarketAccountFactory,
+  StakeAccountFactory,
+  SignerFactory,
   sdkToProgramDeps,
 } from '../../../setup/index.js';
 
@@ -262,6 +269,235 @@ describe('JobsProgram', () => {
         expect(first.timeStart).toBe(RUN_TIME_777);
         expect(second.state).toBe(JobState.COMPLETED);
       });
+
+      it('multiple looks up runs through a job index instead of a full run scan', async () => {
+        const jobAddrs = Array.from({ length: 6 }, (_, i) => newAddr(200 + i));
+        const otherJob = newAddr(210);
+        const [runA, runB, runOther] = [newAddr(211), newAddr(212), newAddr(213)];
+        const nodeAddr = newAddr(214);
+        vi.spyOn(programClient, 'fetchAllJobAccount' as any).mockResolvedValue(
+          jobAddrs.map((addr) => makeJobAccount(JobState.QUEUED, addr))
+        );
+        const indexEntry = (pubkey: Address, job: Address) => ({
+          pubkey,
+          account: {
+            data: [Buffer.from(getAddressEncoder().encode(job)).toString('base64'), 'base64'],
+          },
+        });
+        const gpaArgs: any[] = [];
+        sdk.solana.rpc.getProgramAccounts = vi.fn((_pid: Address, args: any) => {
+          gpaArgs.push(args);
+          return {
+            send: vi
+              .fn()
+              .mockResolvedValue([
+                indexEntry(runA, jobAddrs[0]),
+                indexEntry(runOther, otherJob),
+                indexEntry(runB, jobAddrs[3]),
+              ]),
+          };
+        }) as any;
+        const fetchRunsSpy = vi
+          .spyOn(programClient, 'fetchAllMaybeRunAccount' as any)
+          .mockResolvedValue([
+            { ...makeRunAccount(jobAddrs[0], RUN_TIME_555, nodeAddr), exists: true },
+            { ...makeRunAccount(jobAddrs[3], RUN_TIME_777, nodeAddr), exists: true },
+          ]);
+
+        const out = await jobs.multiple(jobAddrs, true);
+
+        // A single run index request with only the job field of each run
+        expect(gpaArgs).toHaveLength(1);
+        expect(gpaArgs[0].dataSlice).toEqual({ offset: 8, length: 32 });
+        expect(fetchRunsSpy.mock.calls[0][1]).toEqual([runA, runB]);
+        expect(out.map((job) => job.state)).toEqual([
+          JobState.RUNNING,
+          JobState.QUEUED,
+          JobState.QUEUED,
+          JobState.RUNNING,
+          JobState.QUEUED,
+          JobState.QUEUED,
+        ]);
+        expect(out[3].timeStart).toBe(RUN_TIME_777);
+      });
+    });
+
+    describe('all filters', () => {
+      const mockJobs = (accounts: ReturnType<typeof makeJobAccount>[]) => {
+        const gpaArgs: any[] = [];
+        sdk.solana.rpc.getProgramAccounts = vi.fn((_pid: Address, args: any) => {
+          gpaArgs.push(args);
+          return {
+            send: vi
+              .fn()
+              .mockResolvedValue(
+                accounts.map((acc) => ({ pubkey: acc.address, account: { data: ['', 'base64'] } }))
+              ),
+          };
+        }) as any;
+        const decodeSpy = vi.spyOn(programClient, 'decodeJobAccount' as any);
+        accounts.forEach((acc) => decodeSpy.mockReturnValueOnce(acc));
+        return gpaArgs;
+      };
+      const memcmpOffsets = (args: any) =>
+        args.filters.map((filter: any) => Number(filter.memcmp.offset));
+
+      it('uses memcmp filters at the decoder offsets where the layout allows', async () => {
+        const gpaArgs = mockJobs([]);
+
+        await jobs.all({
+          state: JobState.QUEUED,
+          market: newAddr(43),
+          node: newAddr(44),
+          project: newAddr(45),
+          payer: newAddr(46),
+          price: { min: 5, max: 5 },
+          hasResult: false,
+        });
+
+        expect(memcmpOffsets(gpaArgs[0])).toEqual([0, 208, 176, 104, 72, 136, 168, 40]);
+        // The price is given in NOS and compared in base units
+        expect(gpaArgs[0].filters[6].memcmp.bytes).toBe(
+          bs58.encode(getU64Encoder().encode(5_000_000n))
+        );
+      });
+
+      it('applies time, price and result filters client-side', async () => {
+        const emptyResult = new Uint8Array(32);
+        const [a, b, c] = [newAddr(47), newAddr(48), newAddr(49)];
+        const gpaArgs = mockJobs([
+          JobAccountFactory.create({ address: a, timeStart: BigInt(150), price: BigInt(10) }),
+          JobAccountFactory.create({ address: b, timeStart: BigInt(50), price: BigInt(10) }),
+          JobAccountFactory.create({
+            address: c,
+            timeStart: BigInt(150),
+            price: BigInt(10),
+            ipfsResult: emptyResult,
+          }),
+        ]);
+
+        const out = await jobs.all({
+          timeStart: { min: 100, max: 200 },
+          price: { min: 0.000005 },
+          hasResult: true,
+        });
+
+        // Only the discriminator is filtered on the server
+        expect(memcmpOffsets(gpaArgs[0])).toEqual([0]);
+        expect(out.map((job) => job.address)).toEqual([a]);
+      });
+    });
+
+    describe('query', () => {
+      it('prefetches keys only and hydrates jobs in pages', async () => {
+        const [a, b, c] = [newAddr(40), newAddr(41), newAddr(42)];
+        const gpaArgs: any[] = [];
+        sdk.solana.rpc.getProgramAccounts = vi.fn((_pid: Address, args: any) => {
+          gpaArgs.push(args);
+          return { send: vi.fn().mockResolvedValue([a, b, c].map((pubkey) => ({ pubkey }))) };
+        }) as any;
+        const fetchSpy = vi
+          .spyOn(programClient, 'fetchAllMaybeJobAccount' as any)
+          .mockImplementation(async (_rpc: any, addresses: any) =>
+            (addresses as Address[]).map((addr) =>
+              addr === b
+                ? { address: addr, exists: false }
+                : { ...makeJobAccount(JobState.QUEUED, addr), exists: true }
+            )
+          );
+
+        const out: Address[] = [];
+        for await (const job of jobs.query({ state: JobState.QUEUED }, { pageSize: 2 })) {
+          out.push(job.address);
+        }
+
+        expect(gpaArgs[0].dataSlice).toEqual({ offset: 0, length: 0 });
+        expect(gpaArgs[0].filters).toHaveLength(2);
+        expect(fetchSpy.mock.calls.map(([, addresses]) => addresses)).toEqual([[a, b], [c]]);
+        // Accounts closed between prefetch and hydration are skipped
+        expect(out).toEqual([a, c]);
+      });
+
+      it('rejects page sizes above the getMultipleAccounts limit', async () => {
+        const iterator = jobs.query(undefined, { pageSize: 101 })[Symbol.asyncIterator]();
+        await expect(iterator.next()).rejects.toMatchObject({
+          code: ErrorCodes.VALIDATION_ERROR,
+        });
+      });
+    });
+
+    describe('queue and queuePosition', () => {
+      const marketAddr = newAddr(120);
+
+      it('queue returns the queued jobs of a job queue', async () => {
+        const [a, b] = [newAddr(121), newAddr(122)];
+        vi.spyOn(programClient, 'fetchMarketAccount' as any).mockResolvedValue(
+          MarketAccountFactory.create({
+            address: marketAddr,
+            queueType: MarketQueueType.JOB_QUEUE,
+            queue: [a, b],
+          })
+        );
+        const fetchJobsSpy = vi
+          .spyOn(programClient, 'fetchAllJobAccount' as any)
+          .mockResolvedValue([
+            makeJobAccount(JobState.QUEUED, a),
+            makeJobAccount(JobState.QUEUED, b),
+          ]);
+
+        const queue = await jobs.queue(marketAddr);
+
+        expect(fetchJobsSpy.mock.calls[0][1]).toEqual([a, b]);
+        expect(queue.queueType).toBe(MarketQueueType.JOB_QUEUE);
+        expect(
+          queue.queueType === MarketQueueType.JOB_QUEUE && queue.jobs.map((j) => j.address)
+        ).toEqual([a, b]);
+      });
+
+      it('queue returns the waiting nodes of a node queue with their stake', async () => {
+        const [nodeA, nodeB] = [newAddr(123), newAddr(124)];
+        const stakeA = newAddr(125);
+        vi.spyOn(programClient, 'fetchMarketAccount' as any).mockResolvedValue(
+          MarketAccountFactory.create({ address: marketAddr, queue: [nodeA, nodeB] })
+        );
+        (sdk as any).solana.pda = vi.fn(async () => stakeA);
+        vi.spyOn(stakingClient, 'fetchAllMaybeStakeAccount' as any).mockResolvedValue([
+          {
+            ...StakeAccountFactory.create({ address: stakeA, authority: nodeA, xnos: BigInt(500) }),
+            exists: true,
+          },
+          { address: stakeA, exists: false },
+        ]);
+
+        const queue = await jobs.queue(marketAddr);
+
+        expect((sdk as any).solana.pda).toHaveBeenCalledWith(
+          ['stake', sdk.config.programs.nosTokenAddress, nodeA],
+          sdk.config.programs.stakeAddress
+        );
+        if (queue.queueType !== MarketQueueType.NODE_QUEUE) throw new Error('expected node queue');
+        expect(queue.nodes[0].node).toBe(nodeA);
+        expect(queue.nodes[0].stake?.xnos).toBe(500);
+        expect(queue.nodes[1]).toEqual({ node: nodeB, stake: null });
+      });
+
+      it('queuePosition returns the number of entries ahead', async () => {
+        const [a, b, c] = [newAddr(126), newAddr(127), newAddr(128)];
+        vi.spyOn(programClient, 'fetchMarketAccount' as any).mockResolvedValue(
+          MarketAccountFactory.create({
+            address: marketAddr,
+            queueType: MarketQueueType.JOB_QUEUE,
+            queue: [a, b, c],
+          })
+        );
+
+        expect(await jobs.queuePosition(marketAddr, c)).toEqual({
+          queueType: MarketQueueType.JOB_QUEUE,
+          position: 2,
+          length: 3,
+        });
+        expect((await jobs.queuePosition(marketAddr, newAddr(129))).position).toBeNull();
+      });
     });
 
     describe('post', () => {
@@ -306,6 +542,603 @@ describe('JobsProgram', () => {
       });
     });
 
+    describe('postAndWait', () => {
+      const jobAddr = newAddr(90);
+      const marketAddr = newAddr(91);
+      const jobDefinition = { version: '0.1', type: 'container', ops: [] } as any;
+      const jobWithState = (state: JobState, ipfsResult: string | null = null) =>
+        ({ address: jobAddr, state, ipfsResult }) as any;
+      const streamOf = (jobs: any[], hang = false) =>
+        (async function* () {
+          for (const job of jobs) yield job;
+          if (hang) await new Promise(() => {});
+        })();
+
+      beforeEach(() => {
+        (sdk as any).ipfs.pin = vi.fn().mockResolvedValue('QmDefinition');
+        (sdk as any).ipfs.retrieve = vi.fn().mockResolvedValue({ status: 'success' });
+        (sdk as any).solana.buildSignAndSend = vi.fn().mockResolvedValue('sig');
+        vi.spyOn(jobs, 'post').mockResolvedValue({
+          accounts: [{ address: jobAddr }],
+        } as any);
+      });
+
+      it('pins, posts and resolves with the final job and its result', async () => {
+        vi.spyOn(jobs, 'get').mockResolvedValue(jobWithState(JobState.QUEUED));
+        const watchSpy = vi
+          .spyOn(jobs, 'watch')
+          .mockReturnValue(
+            streamOf(
+              [
+                jobWithState(JobState.QUEUED),
+                jobWithState(JobState.RUNNING),
+                jobWithState(JobState.COMPLETED, 'QmResult'),
+              ],
+              true
+            )
+          );
+        const onStateChange = vi.fn();
+
+        const { job, result, signature } = await jobs.postAndWait(
+          { market: marketAddr, timeout: 100, jobDefinition },
+          { onStateChange }
+        );
+
+        expect((sdk as any).ipfs.pin).toHaveBeenCalledWith(jobDefinition);
+        expect(jobs.post).toHaveBeenCalledWith({
+          market: marketAddr,
+          timeout: 100,
+          ipfsHash: 'QmDefinition',
+        });
+        expect(signature).toBe('sig');
+        expect(job.state).toBe(JobState.COMPLETED);
+        expect((sdk as any).ipfs.retrieve).toHaveBeenCalledWith('QmResult');
+        expect(result).toEqual({ status: 'success' });
+        expect(onStateChange.mock.calls.map(([j]) => j.state)).toEqual([
+          JobState.QUEUED,
+          JobState.RUNNING,
+          JobState.COMPLETED,
+        ]);
+        expect(watchSpy).toHaveBeenCalledWith(jobAddr, { signal: expect.any(AbortSignal) });
+        expect(watchSpy.mock.calls[0][1]?.signal?.aborted).toBe(true);
+      });
+
+      it('falls back to polling when the watch fails', async () => {
+        vi.spyOn(jobs, 'watch').mockImplementation(() => {
+          throw new Error('subscription closed');
+        });
+        vi.spyOn(jobs, 'get')
+          .mockResolvedValueOnce(jobWithState(JobState.QUEUED))
+          .mockResolvedValue(jobWithState(JobState.STOPPED));
+
+        const { job, result } = await jobs.postAndWait(
+          { market: marketAddr, timeout: 100, jobDefinition },
+          { pollIntervalMs: 5 }
+        );
+
+        expect(job.state).toBe(JobState.STOPPED);
+        expect(result).toBeNull();
+        expect((sdk as any).ipfs.retrieve).not.toHaveBeenCalled();
+      });
+
+      it('rejects with TIMEOUT when the job does not finish in time', async () => {
+        const watchSpy = vi.spyOn(jobs, 'watch').mockReturnValue(streamOf([], true));
+        vi.spyOn(jobs, 'get').mockResolvedValue(jobWithState(JobState.RUNNING));
+
+        await expect(
+          jobs.postAndWait(
+            { market: marketAddr, timeout: 100, jobDefinition },
+            { timeoutMs: 20, pollIntervalMs: 5 }
+          )
+        ).rejects.toMatchObject({ code: ErrorCodes.TIMEOUT });
+        expect(watchSpy.mock.calls[0][1]?.signal?.aborted).toBe(true);
+      });
+
+      it('rejects with the abort reason when the signal is aborted', async () => {
+        vi.spyOn(jobs, 'watch').mockReturnValue(streamOf([], true));
+        vi.spyOn(jobs, 'get').mockResolvedValue(jobWithState(JobState.QUEUED));
+        const controller = new AbortController();
+
+        const promise = jobs.postAndWait(
+          { market: marketAddr, timeout: 100, jobDefinition },
+          { signal: controller.signal, pollIntervalMs: 5 }
+        );
+        setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+        await expect(promise).rejects.toThrow('cancelled');
+      });
+    });
+
+    describe('estimateCost and balance checks', () => {
+      const marketAddr = newAddr(95);
+      const timeout = 1000;
+
+      beforeEach(() => {
+        (sdk as any).wallet = SignerFactory.createMockSigner(newAddr(96));
+        (sdk as any).solana.rpc.getMinimumBalanceForRentExemption = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue(BigInt(1_000_000)),
+        }));
+        vi.spyOn(programClient, 'fetchMarketAccount' as any).mockResolvedValue(makeMarketAccount());
+        vi.spyOn(programClient, 'getListInstruction' as any).mockReturnValue({ accounts: [] });
+      });
+
+      it('estimateCost adds the rewards fee to the market job price', async () => {
+        const cost = await jobs.estimateCost({ market: marketAddr, timeout });
+
+        // 10 base units per second for 1000 seconds, plus a tenth as rewards fee
+        expect(cost.jobPrice).toBe(0.01);
+        expect(cost.rewardsFee).toBe(0.001);
+        expect(cost.totalNos).toBe(0.011);
+        expect(cost.networkFee).toBe(2_000_000 + 3 * 5000);
+      });
+
+      it('post throws INSUFFICIENT_FUNDS with the shortfall when checkBalance is set', async () => {
+        (sdk as any).nos.getBalance = vi.fn().mockResolvedValue(0.005);
+        (sdk as any).solana.getBalance = vi.fn().mockResolvedValue(10_000_000);
+
+        const err = await jobs
+          .post({
+            market: marketAddr,
+            timeout,
+            ipfsHash: solBytesArrayToIpfsHash([1]),
+            checkBalance: true,
+          })
+          .catch((e) => e);
+
+        expect(err.code).toBe(ErrorCodes.INSUFFICIENT_FUNDS);
+        expect(err.details.nos).toEqual({ required: 0.011, available: 0.005, shortfall: 0.006 });
+        expect(err.details.sol.shortfall).toBe(0);
+      });
+
+      it('post adds the signature of a separate payer to the network fee', async () => {
+        const payer = SignerFactory.createMockSigner(newAddr(94));
+        (sdk as any).nos.getBalance = vi.fn().mockResolvedValue(1);
+        (sdk as any).solana.getBalance = vi.fn().mockResolvedValue(0);
+
+        const err = await jobs
+          .post({
+            market: marketAddr,
+            timeout,
+            ipfsHash: solBytesArrayToIpfsHash([1]),
+            payer,
+            checkBalance: true,
+          })
+          .catch((e) => e);
+
+        expect((sdk as any).solana.getBalance).toHaveBeenCalledWith(payer.address);
+        expect(err.details.sol.required).toBe(2_000_000 + 4 * 5000);
+      });
+
+      it('post skips the balance check by default', async () => {
+        (sdk as any).nos.getBalance = vi.fn();
+
+        await jobs.post({ market: marketAddr, timeout, ipfsHash: solBytesArrayToIpfsHash([1]) });
+
+        expect((sdk as any).nos.getBalance).not.toHaveBeenCalled();
+      });
+
+      it('extend checks the balance against the job price', async () => {
+        const jobAddr = newAddr(97);
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          makeJobAccount(JobState.QUEUED, jobAddr)
+        );
+        vi.spyOn(programClient, 'getExtendInstruction' as any).mockReturnValue({ accounts: [] });
+        (sdk as any).nos.getBalance = vi.fn().mockResolvedValue(1);
+        (sdk as any).solana.getBalance = vi.fn().mockResolvedValue(0);
+
+        const err = await jobs
+          .extend({ job: jobAddr, timeout, checkBalance: true })
+          .catch((e) => e);
+
+        expect(err.code).toBe(ErrorCodes.INSUFFICIENT_FUNDS);
+        expect(err.details.nos.shortfall).toBe(0);
+        expect(err.details.sol).toEqual({ required: 5000, available: 0, shortfall: 5000 });
+      });
+    });
+
+    describe('work', () => {
+      it('creates work instruction with stake PDA and system program placeholders', async () => {
+        const walletAddr = newAddr(75);
+        const stakePda = newAddr(76);
+        const marketAddr = newAddr(77);
+        (sdk as any).wallet = SignerFactory.createMockSigner(walletAddr);
+        const pdaSpy = vi.fn(async () => stakePda);
+        (sdk as any).solana.pda = pdaSpy;
+        const workSpy = vi.spyOn(programClient, 'getWorkInstruction' as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        const instr = await jobs.work({ market: marketAddr });
+
+        expect(pdaSpy).toHaveBeenCalledWith(
+          ['stake', sdk.config.programs.nosTokenAddress, walletAddr],
+          sdk.config.programs.stakeAddress
+        );
+        const args = workSpy.mock.calls[0][0] as any;
+        expect(args.market).toBe(marketAddr);
+        expect(args.stake).toBe(stakePda);
+        expect(args.nft).toBe(SYSTEM_PROGRAM_ADDRESS);
+        expect(args.metadata).toBe(SYSTEM_PROGRAM_ADDRESS);
+        expect(args.authority.address).toBe(walletAddr);
+        expect(args.run.address).toBeDefined();
+        expect(instr).toBeDefined();
+      });
+
+      it('throws when no wallet is set', async () => {
+        await expect(jobs.work({ market: newAddr(78) })).rejects.toThrow(
+          'Failed to create work instruction'
+        );
+      });
+    });
+
+    describe('quit', () => {
+      it('creates quit instruction from the run account', async () => {
+        const runAddr = newAddr(79);
+        const jobAddr = newAddr(80);
+        const runPayer = newAddr(81);
+        (sdk as any).wallet = SignerFactory.createMockSigner(newAddr(82));
+        vi.spyOn(programClient, 'fetchRunAccount' as any).mockResolvedValue(
+          RunAccountFactory.create({
+            address: runAddr,
+            job: jobAddr,
+            payer: runPayer,
+            time: BigInt(RUN_TIME_555),
+          })
+        );
+        const quitSpy = vi.spyOn(programClient, 'getQuitInstruction' as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        await jobs.quit({ run: runAddr });
+
+        const args = quitSpy.mock.calls[0][0] as any;
+        expect(args.run).toBe(runAddr);
+        expect(args.job).toBe(jobAddr);
+        expect(args.payer).toBe(runPayer);
+      });
+    });
+
+    describe('finish', () => {
+      it('creates finish instruction with run, ATAs and decoded ipfsResult', async () => {
+        const jobAddr = newAddr(83);
+        const runAddr = newAddr(84);
+        const jobPayer = newAddr(85);
+        const runPayer = newAddr(86);
+        const projectAddr = newAddr(87);
+        const ipfsBytes = Array.from({ length: IPFS_BYTES_LENGTH }, (_, i) => 31 - i);
+        const ipfsCid = solBytesArrayToIpfsHash(ipfsBytes);
+        (sdk as any).wallet = SignerFactory.createMockSigner(newAddr(88));
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          JobAccountFactory.create({
+            address: jobAddr,
+            payer: jobPayer,
+            project: projectAddr,
+            state: JobState.QUEUED,
+          })
+        );
+        vi.spyOn(programClient, 'decodeRunAccount' as any).mockReturnValue(
+          RunAccountFactory.create({
+            address: runAddr,
+            job: jobAddr,
+            payer: runPayer,
+            time: BigInt(RUN_TIME_555),
+          })
+        );
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue([
+            {
+              pubkey: runAddr,
+              account: {
+                data: Buffer.from('mock-run-data').toString('base64'),
+                executable: false,
+                lamports: 1000000,
+                owner: sdk.config.programs.jobsAddress,
+                rentEpoch: 0,
+              },
+            },
+          ]),
+        })) as any;
+        const finishSpy = vi.spyOn(programClient, 'getFinishInstruction' as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        await jobs.finish({ job: jobAddr, ipfsResult: ipfsCid });
+
+        const args = finishSpy.mock.calls[0][0] as any;
+        expect(args.run).toBe(runAddr);
+        expect(args.payerJob).toBe(jobPayer);
+        expect(args.payerRun).toBe(runPayer);
+        expect(args.project).toBe(projectAddr);
+        expect(Array.from(args.ipfsResult)).toEqual(ipfsBytes);
+      });
+
+      it('throws when the job has no run account', async () => {
+        const jobAddr = newAddr(89);
+        (sdk as any).wallet = SignerFactory.createMockSigner(newAddr(90));
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          makeJobAccount(JobState.QUEUED, jobAddr)
+        );
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue([]),
+        })) as any;
+
+        await expect(jobs.finish({ job: jobAddr, ipfsResult: 'Qm' })).rejects.toThrow(
+          'No job run account found for the specified job'
+        );
+      });
+    });
+
+    describe('market administration', () => {
+      beforeEach(() => {
+        (sdk as any).wallet = SignerFactory.createMockSigner(newAddr(120));
+      });
+
+      it('openMarket converts NOS amounts and derives the vault PDA', async () => {
+        const vaultPda = newAddr(121);
+        const accessKey = newAddr(122);
+        const pdaSpy = vi.fn(async () => vaultPda);
+        (sdk as any).solana.pda = pdaSpy;
+        const openSpy = vi.spyOn(programClient, 'getOpenInstruction' as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        await jobs.openMarket({
+          jobPrice: 0.5,
+          jobTimeout: 3600,
+          jobExpiration: 86400,
+          nodeXnosMinimum: 1000,
+          nodeAccessKey: accessKey,
+        });
+
+        const args = openSpy.mock.calls[0][0] as any;
+        expect(args.jobPrice).toBe(BigInt(500_000));
+        expect(args.nodeXnosMinimum).toBe(BigInt(1_000_000_000));
+        expect(args.jobTimeout).toBe(3600);
+        expect(args.jobExpiration).toBe(86400);
+        expect(args.jobType).toBe(0);
+        expect(args.accessKey).toBe(accessKey);
+        expect(args.vault).toBe(vaultPda);
+        expect(args.mint).toBe(sdk.config.programs.nosTokenAddress);
+        expect(pdaSpy).toHaveBeenCalledWith(
+          [args.market.address, sdk.config.programs.nosTokenAddress],
+          sdk.config.programs.jobsAddress
+        );
+      });
+
+      it('openMarket defaults the access key to the system program', async () => {
+        const openSpy = vi.spyOn(programClient, 'getOpenInstruction' as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        await jobs.openMarket({
+          jobPrice: 1,
+          jobTimeout: 60,
+          jobExpiration: 60,
+          nodeXnosMinimum: 0,
+        });
+
+        const args = openSpy.mock.calls[0][0] as any;
+        expect(args.accessKey).toBe(SYSTEM_PROGRAM_ADDRESS);
+      });
+
+      it('openMarket rejects a negative job price with a validation error', async () => {
+        await expect(
+          jobs.openMarket({ jobPrice: -1, jobTimeout: 60, jobExpiration: 60, nodeXnosMinimum: 0 })
+        ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+      });
+
+      it('updateMarket keeps current values for omitted params', async () => {
+        const marketAddr = newAddr(123);
+        const market = MarketAccountFactory.create({ address: marketAddr });
+        vi.spyOn(programClient, 'fetchMarketAccount' as any).mockResolvedValue({
+          ...market,
+          data: { ...market.data, jobExpiration: BigInt(100) },
+        });
+        const updateSpy = vi.spyOn(programClient, 'getUpdateInstruction' as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        await jobs.updateMarket({ market: marketAddr, jobPrice: 2 });
+
+        const args = updateSpy.mock.calls[0][0] as any;
+        expect(args.jobPrice).toBe(BigInt(2_000_000));
+        expect(args.jobTimeout).toBe(market.data.jobTimeout);
+        expect(args.jobExpiration).toBe(BigInt(100));
+        expect(args.nodeStakeMinimum).toBe(market.data.nodeXnosMinimum);
+        expect(args.accessKey).toBe(market.data.nodeAccessKey);
+      });
+
+      it.each([
+        { method: 'closeMarket' as const, builder: 'getCloseInstruction' },
+        { method: 'closeMarketAdmin' as const, builder: 'getCloseAdminInstruction' },
+      ])('$method sends remaining vault tokens to the wallet ATA', async ({ method, builder }) => {
+        const marketAddr = newAddr(124);
+        const walletATA = newAddr(125);
+        (sdk as any).nos.getATA = vi.fn(async () => walletATA);
+        const closeSpy = vi.spyOn(programClient, builder as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        await jobs[method]({ market: marketAddr });
+
+        const args = closeSpy.mock.calls[0][0] as any;
+        expect(args.market).toBe(marketAddr);
+        expect(args.user).toBe(walletATA);
+      });
+
+      it.each([
+        { method: 'clean' as const, builder: 'getCleanInstruction' },
+        { method: 'cleanAdmin' as const, builder: 'getCleanAdminInstruction' },
+      ])('$method refunds the job payer', async ({ method, builder }) => {
+        const jobAddr = newAddr(126);
+        const payer = newAddr(127);
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          JobAccountFactory.create({ address: jobAddr, payer, state: JobState.COMPLETED })
+        );
+        const cleanSpy = vi.spyOn(programClient, builder as any).mockReturnValue({
+          accounts: [],
+          data: new Uint8Array([1]),
+        });
+
+        await jobs[method]({ job: jobAddr });
+
+        const args = cleanSpy.mock.calls[0][0] as any;
+        expect(args.job).toBe(jobAddr);
+        expect(args.payer).toBe(payer);
+      });
+    });
+
+    describe('claim, assign, recover, stop and complete', () => {
+      const mockInstruction = { accounts: [], data: new Uint8Array([1]) };
+      const mockRuns = (runs: ReturnType<typeof makeRunAccount>[]) => {
+        vi.spyOn(programClient, 'decodeRunAccount' as any).mockImplementation(
+          (account: any) => runs.find((run) => run.address === account.address) ?? runs[0]
+        );
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue(
+            runs.map((run) => ({
+              pubkey: run.address,
+              account: {
+                data: Buffer.from('mock-run-data').toString('base64'),
+                executable: false,
+                lamports: 1000000,
+                owner: sdk.config.programs.jobsAddress,
+                rentEpoch: 0,
+              },
+            }))
+          ),
+        })) as any;
+      };
+
+      beforeEach(() => {
+        (sdk as any).wallet = SignerFactory.createMockSigner(newAddr(140));
+      });
+
+      it('claim creates instruction for a queued job without run', async () => {
+        const jobAddr = newAddr(141);
+        const marketAddr = newAddr(142);
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          JobAccountFactory.create({ address: jobAddr, market: marketAddr })
+        );
+        mockRuns([]);
+        const claimSpy = vi
+          .spyOn(programClient, 'getClaimInstruction' as any)
+          .mockReturnValue(mockInstruction);
+
+        await jobs.claim({ job: jobAddr });
+
+        const args = claimSpy.mock.calls[0][0] as any;
+        expect(args.job).toBe(jobAddr);
+        expect(args.market).toBe(marketAddr);
+        expect(args.nft).toBe(SYSTEM_PROGRAM_ADDRESS);
+      });
+
+      it('claim rejects a job that already has a run', async () => {
+        const jobAddr = newAddr(143);
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          makeJobAccount(JobState.QUEUED, jobAddr)
+        );
+        mockRuns([makeRunAccount(jobAddr, RUN_TIME_555)]);
+        const claimSpy = vi.spyOn(programClient, 'getClaimInstruction' as any);
+
+        await expect(jobs.claim({ job: jobAddr })).rejects.toMatchObject({
+          name: 'NosanaError',
+          code: ErrorCodes.VALIDATION_ERROR,
+        });
+        expect(claimSpy).not.toHaveBeenCalled();
+      });
+
+      it('assign creates instruction for the given node with decoded ipfsJob', async () => {
+        const nodeAddr = newAddr(144);
+        const ipfsBytes = Array.from({ length: IPFS_BYTES_LENGTH }, (_, i) => i);
+        const assignSpy = vi
+          .spyOn(programClient, 'getAssignInstruction' as any)
+          .mockReturnValue(mockInstruction);
+
+        await jobs.assign({
+          market: newAddr(145),
+          node: nodeAddr,
+          timeout: 600,
+          ipfsHash: solBytesArrayToIpfsHash(ipfsBytes),
+        });
+
+        const args = assignSpy.mock.calls[0][0] as any;
+        expect(args.node).toBe(nodeAddr);
+        expect(args.timeout).toBe(600);
+        expect(Array.from(args.ipfsJob)).toEqual(ipfsBytes);
+      });
+
+      it.each([
+        { method: 'recover' as const, builder: 'getRecoverInstruction', params: {} },
+        {
+          method: 'complete' as const,
+          builder: 'getCompleteInstruction',
+          params: { ipfsResult: 'Qm' },
+        },
+      ])('$method creates instruction for a stopped job', async ({ method, builder, params }) => {
+        const jobAddr = newAddr(146);
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          makeJobAccount(JobState.STOPPED, jobAddr)
+        );
+        const builderSpy = vi.spyOn(programClient, builder as any).mockReturnValue(mockInstruction);
+
+        await jobs[method]({ job: jobAddr, ...params } as any);
+
+        expect((builderSpy.mock.calls[0][0] as any).job).toBe(jobAddr);
+      });
+
+      it.each([
+        { method: 'recover' as const, state: JobState.QUEUED },
+        { method: 'recover' as const, state: JobState.COMPLETED },
+        { method: 'complete' as const, state: JobState.COMPLETED },
+      ])('$method rejects a job in state $state', async ({ method, state }) => {
+        const jobAddr = newAddr(147);
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          makeJobAccount(state, jobAddr)
+        );
+
+        await expect(jobs[method]({ job: jobAddr, ipfsResult: 'Qm' })).rejects.toMatchObject({
+          code: ErrorCodes.VALIDATION_ERROR,
+        });
+      });
+
+      it('stop creates instruction when the wallet is queued in the market', async () => {
+        const marketAddr = newAddr(148);
+        const market = MarketAccountFactory.create({ address: marketAddr });
+        vi.spyOn(programClient, 'fetchMarketAccount' as any).mockResolvedValue({
+          ...market,
+          data: { ...market.data, queue: [newAddr(140)] },
+        });
+        const stopSpy = vi
+          .spyOn(programClient, 'getStopInstruction' as any)
+          .mockReturnValue(mockInstruction);
+
+        await jobs.stop({ market: marketAddr });
+
+        expect((stopSpy.mock.calls[0][0] as any).node).toBe(newAddr(140));
+      });
+
+      it('stop rejects a node that is not queued', async () => {
+        const marketAddr = newAddr(149);
+        const market = MarketAccountFactory.create({ address: marketAddr });
+        vi.spyOn(programClient, 'fetchMarketAccount' as any).mockResolvedValue({
+          ...market,
+          data: { ...market.data, queue: [] },
+        });
+
+        await expect(jobs.stop({ market: marketAddr })).rejects.toMatchObject({
+          code: ErrorCodes.VALIDATION_ERROR,
+        });
+      });
+    });
+
     describe('error handling', () => {
       it.each([
         {
@@ -500,5 +1333,829 @@ describe('JobsProgram', () => {
       expect(event.data.time).toBe(RUN_TIME_777);
       expect(event.data.job).toBe(JOB_ADDR);
     });
+
+    describe('filters', () => {
+      const OTHER_JOB_ADDR = newAddr(104);
+      const OTHER_MARKET_ADDR = newAddr(105);
+
+      // Subscriptions that never notify, so the stream waits instead of resubscribing
+      const createPendingSubscription = () => {
+        const pendingIterable = {
+          [Symbol.asyncIterator]: () => ({ next: () => new Promise<never>(() => {}) }),
+        };
+        (sdk as any).solana.rpcSubscriptions = {
+          programNotifications: vi.fn().mockReturnValue({
+            subscribe: vi.fn().mockResolvedValue(pendingIterable),
+          }),
+        };
+      };
+
+      const startStream = async (eventStream: AsyncIterable<unknown>) => {
+        void eventStream[Symbol.asyncIterator]().next();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      };
+
+      const getSubscriptionFilters = () =>
+        (sdk.solana.rpcSubscriptions.programNotifications as any).mock.calls.map(
+          ([, config]: any) => config.filters
+        );
+
+      it('subscribes without filters when none are given', async () => {
+        createPendingSubscription();
+        const [eventStream, stopFn] = await jobs.monitor();
+        stop = stopFn;
+        await startStream(eventStream);
+
+        expect(sdk.solana.rpcSubscriptions.programNotifications).toHaveBeenCalledTimes(1);
+        expect(sdk.solana.rpcSubscriptions.programNotifications).toHaveBeenCalledWith(
+          sdk.config.programs.jobsAddress,
+          { encoding: 'base64' }
+        );
+      });
+
+      it('translates filters into memcmp filters per account type', async () => {
+        createPendingSubscription();
+        const [eventStream, stopFn] = await jobs.monitor({ market: MARKET_ADDR, node: NODE_ADDR });
+        stop = stopFn;
+        await startStream(eventStream);
+
+        const [jobFilters, runFilters, ...rest] = getSubscriptionFilters();
+        expect(rest).toHaveLength(0);
+        expect(jobFilters.map((f: any) => [f.memcmp.offset, f.memcmp.bytes])).toEqual([
+          [0n, bs58.encode(programClient.JOB_ACCOUNT_DISCRIMINATOR)],
+          [72n, MARKET_ADDR],
+          [104n, NODE_ADDR],
+        ]);
+        expect(runFilters.map((f: any) => [f.memcmp.offset, f.memcmp.bytes])).toEqual([
+          [0n, bs58.encode(programClient.RUN_ACCOUNT_DISCRIMINATOR)],
+          [40n, NODE_ADDR],
+        ]);
+      });
+
+      it('only subscribes to the selected account types', async () => {
+        createPendingSubscription();
+        const [eventStream, stopFn] = await jobs.monitorDetailed({
+          accountTypes: [MonitorEventType.MARKET],
+        });
+        stop = stopFn;
+        await startStream(eventStream);
+
+        expect(getSubscriptionFilters()).toEqual([
+          [
+            expect.objectContaining({
+              memcmp: expect.objectContaining({
+                offset: 0n,
+                bytes: bs58.encode(programClient.MARKET_ACCOUNT_DISCRIMINATOR),
+              }),
+            }),
+          ],
+        ]);
+      });
+
+      it('re-applies filters to jobs merged from run accounts', async () => {
+        const jobAccounts = {
+          [JOB_ADDR]: JobAccountFactory.create({ address: JOB_ADDR, market: MARKET_ADDR }),
+          [OTHER_JOB_ADDR]: JobAccountFactory.create({
+            address: OTHER_JOB_ADDR,
+            market: OTHER_MARKET_ADDR,
+          }),
+        } as Record<string, any>;
+        const runAccounts = {
+          [RUN_ADDR]: makeRunAccount(OTHER_JOB_ADDR, RUN_TIME_555, NODE_ADDR),
+          [newAddr(106)]: makeRunAccount(JOB_ADDR, RUN_TIME_777, NODE_ADDR),
+        } as Record<string, any>;
+        createMockSubscription(
+          Object.keys(runAccounts).map((addr) =>
+            createNotification(addr as Address, MonitorEventType.RUN)
+          )
+        );
+        vi.spyOn(programClient, 'identifyNosanaJobsAccount' as any).mockReturnValue(
+          programClient.NosanaJobsAccount.RunAccount
+        );
+        vi.spyOn(programClient, 'decodeRunAccount' as any).mockImplementation(
+          (account: any) => runAccounts[account.address]
+        );
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockImplementation(
+          async (_rpc: any, addr: any) => jobAccounts[addr]
+        );
+
+        const [eventStream, stopFn] = await jobs.monitor({ market: MARKET_ADDR });
+        stop = stopFn;
+        const events: any[] = [];
+        for await (const event of eventStream) {
+          events.push(event);
+          break;
+        }
+
+        expect(events).toHaveLength(1);
+        expect(events[0].type).toBe(MonitorEventType.JOB);
+        expect(events[0].data.address).toBe(JOB_ADDR);
+        expect(events[0].data.state).toBe(JobState.RUNNING);
+      });
+
+      it('matches the payer filter on the job of a run, not on the run payer', async () => {
+        const jobPayer = newAddr(107);
+        const nodePayer = newAddr(108);
+        const jobAccounts = {
+          [JOB_ADDR]: JobAccountFactory.create({ address: JOB_ADDR, payer: jobPayer }),
+          [OTHER_JOB_ADDR]: JobAccountFactory.create({ address: OTHER_JOB_ADDR, payer: nodePayer }),
+        } as Record<string, any>;
+        // Both runs are paid by the node, only the first job was posted by the filtered payer
+        const runAccounts = {
+          [RUN_ADDR]: RunAccountFactory.create({
+            job: OTHER_JOB_ADDR,
+            time: BigInt(RUN_TIME_555),
+            payer: nodePayer,
+          }),
+          [newAddr(106)]: RunAccountFactory.create({
+            job: JOB_ADDR,
+            time: BigInt(RUN_TIME_777),
+            payer: nodePayer,
+          }),
+        } as Record<string, any>;
+        createMockSubscription(
+          Object.keys(runAccounts).map((addr) =>
+            createNotification(addr as Address, MonitorEventType.RUN)
+          )
+        );
+        vi.spyOn(programClient, 'identifyNosanaJobsAccount' as any).mockReturnValue(
+          programClient.NosanaJobsAccount.RunAccount
+        );
+        vi.spyOn(programClient, 'decodeRunAccount' as any).mockImplementation(
+          (account: any) => runAccounts[account.address]
+        );
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockImplementation(
+          async (_rpc: any, addr: any) => jobAccounts[addr]
+        );
+
+        const [eventStream, stopFn] = await jobs.monitor({ payer: jobPayer });
+        stop = stopFn;
+        const events: any[] = [];
+        for await (const event of eventStream) {
+          events.push(event);
+          break;
+        }
+
+        const [, runFilters] = getSubscriptionFilters();
+        expect(runFilters.map((f: any) => f.memcmp.bytes)).toEqual([
+          bs58.encode(programClient.RUN_ACCOUNT_DISCRIMINATOR),
+        ]);
+        expect(events).toHaveLength(1);
+        expect(events[0].data.address).toBe(JOB_ADDR);
+        expect(events[0].data.payer).toBe(jobPayer);
+      });
+
+      it('drops market events when filtering on job fields', async () => {
+        createPendingSubscription();
+        const [eventStream, stopFn] = await jobs.monitor({ project: NODE_ADDR });
+        stop = stopFn;
+        await startStream(eventStream);
+
+        expect(getSubscriptionFilters()).toHaveLength(2);
+      });
+
+      it('rejects filters that exclude every account type', async () => {
+        await expect(
+          jobs.monitor({ accountTypes: [MonitorEventType.MARKET], node: NODE_ADDR })
+        ).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+      });
+    });
+
+    describe('reconnection', () => {
+      const reconnect = { initialDelayMs: 1, jitter: 0 };
+
+      const iterableOf = (notifications: any[], pending = false) => ({
+        [Symbol.asyncIterator]() {
+          let index = 0;
+          return {
+            next: () =>
+              index < notifications.length
+                ? Promise.resolve({ done: false, value: notifications[index++] })
+                : pending
+                  ? new Promise<never>(() => {})
+                  : Promise.resolve({ done: true, value: undefined }),
+          };
+        },
+      });
+
+      const mockSubscriptions = (...subscriptions: (() => Promise<unknown>)[]) => {
+        const subscribe = vi.fn();
+        subscriptions.forEach((subscription) => subscribe.mockImplementationOnce(subscription));
+        (sdk as any).solana.rpcSubscriptions = {
+          programNotifications: vi.fn().mockReturnValue({ subscribe }),
+        };
+        return subscribe;
+      };
+
+      const jobNotification = (state: string) => ({
+        context: { slot: 1n },
+        value: {
+          account: {
+            data: [Buffer.from(`job-${state}`).toString('base64'), 'base64'],
+            executable: false,
+            lamports: 1000000n,
+            owner: sdk.config.programs.jobsAddress,
+            space: 233n,
+          },
+          pubkey: JOB_ADDR,
+        },
+      });
+
+      beforeEach(() => {
+        vi.spyOn(programClient, 'identifyNosanaJobsAccount' as any).mockReturnValue(
+          programClient.NosanaJobsAccount.JobAccount
+        );
+        vi.spyOn(programClient, 'decodeJobAccount' as any).mockImplementation((account: any) =>
+          makeJobAccount(
+            Buffer.from(account.data).toString() === 'job-completed'
+              ? JobState.COMPLETED
+              : JobState.QUEUED,
+            JOB_ADDR
+          )
+        );
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue({ context: { slot: 2n }, value: [] }),
+        })) as any;
+      });
+
+      it('reconnects with backoff and reports connection state changes', async () => {
+        const subscribe = mockSubscriptions(
+          () => Promise.reject(new Error('socket closed')),
+          () => Promise.reject(new Error('socket closed')),
+          () => Promise.resolve(iterableOf([jobNotification('queued')], true))
+        );
+        const states: any[] = [];
+
+        const [eventStream, stopFn] = await jobs.monitor(undefined, {
+          reconnect,
+          onConnectionStateChange: (event) => states.push(event),
+        });
+        stop = stopFn;
+        for await (const event of eventStream) {
+          expect(event.data.address).toBe(JOB_ADDR);
+          break;
+        }
+
+        expect(subscribe).toHaveBeenCalledTimes(3);
+        expect(states).toEqual([
+          { state: 'disconnected', attempt: 0, error: expect.any(Error) },
+          { state: 'reconnecting', attempt: 1, delayMs: 1 },
+          { state: 'disconnected', attempt: 1, error: expect.any(Error) },
+          { state: 'reconnecting', attempt: 2, delayMs: 2 },
+          { state: 'connected', attempt: 2, transport: 'websocket' },
+        ]);
+      });
+
+      it('throws once the maximum number of attempts is reached', async () => {
+        const subscribe = vi.fn().mockRejectedValue(new Error('socket closed'));
+        (sdk as any).solana.rpcSubscriptions = {
+          programNotifications: vi.fn().mockReturnValue({ subscribe }),
+        };
+
+        const [eventStream, stopFn] = await jobs.monitor(undefined, {
+          reconnect: { ...reconnect, maxAttempts: 2 },
+        });
+        stop = stopFn;
+
+        await expect(eventStream[Symbol.asyncIterator]().next()).rejects.toMatchObject({
+          code: ErrorCodes.RPC_ERROR,
+        });
+        expect(subscribe).toHaveBeenCalledTimes(3);
+      });
+
+      it('emits accounts that changed while disconnected after reconnecting', async () => {
+        mockSubscriptions(
+          () => Promise.resolve(iterableOf([jobNotification('queued')])),
+          () => Promise.resolve(iterableOf([], true))
+        );
+        sdk.solana.rpc.getMultipleAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue({
+            context: { slot: 2n },
+            value: [jobNotification('completed').value.account],
+          }),
+        })) as any;
+
+        const [eventStream, stopFn] = await jobs.monitor(undefined, { reconnect });
+        stop = stopFn;
+        const events: any[] = [];
+        for await (const event of eventStream) {
+          events.push(event);
+          if (events.length >= 2) break;
+        }
+
+        expect(events.map((event) => event.data.state)).toEqual([
+          JobState.QUEUED,
+          JobState.COMPLETED,
+        ]);
+        expect(sdk.solana.rpc.getMultipleAccounts).toHaveBeenCalledWith([JOB_ADDR], {
+          encoding: 'base64',
+        });
+      });
+
+      it('does not emit backfilled accounts that are unchanged', async () => {
+        const states: any[] = [];
+        mockSubscriptions(
+          () => Promise.resolve(iterableOf([jobNotification('queued')])),
+          () => Promise.resolve(iterableOf([], true))
+        );
+        sdk.solana.rpc.getMultipleAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue({
+            context: { slot: 2n },
+            value: [jobNotification('queued').value.account],
+          }),
+        })) as any;
+
+        const [eventStream, stopFn] = await jobs.monitor(undefined, {
+          reconnect,
+          onConnectionStateChange: (event) => states.push(event.state),
+        });
+        stop = stopFn;
+        const iterator = eventStream[Symbol.asyncIterator]();
+        await iterator.next();
+        const next = iterator.next();
+        await vi.waitFor(() =>
+          expect(states.filter((state) => state === 'connected')).toHaveLength(2)
+        );
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(sdk.solana.rpc.getMultipleAccounts).toHaveBeenCalledTimes(1);
+        await expect(Promise.race([next, Promise.resolve('pending')])).resolves.toBe('pending');
+      });
+
+      it('does not replay runs that existed before disconnecting', async () => {
+        const states: any[] = [];
+        const { account } = jobNotification('queued').value;
+        mockSubscriptions(
+          () => Promise.resolve(iterableOf([])),
+          () => Promise.resolve(iterableOf([], true))
+        );
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue({
+            context: { slot: 2n },
+            value: [{ pubkey: JOB_ADDR, account }],
+          }),
+        })) as any;
+        sdk.solana.rpc.getMultipleAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue({ context: { slot: 2n }, value: [account] }),
+        })) as any;
+
+        const [eventStream, stopFn] = await jobs.monitor(undefined, {
+          reconnect,
+          onConnectionStateChange: (event) => states.push(event.state),
+        });
+        stop = stopFn;
+        const next = eventStream[Symbol.asyncIterator]().next();
+        await vi.waitFor(() =>
+          expect(states.filter((state) => state === 'connected')).toHaveLength(2)
+        );
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(sdk.solana.rpc.getProgramAccounts).toHaveBeenCalledTimes(2);
+        await expect(Promise.race([next, Promise.resolve('pending')])).resolves.toBe('pending');
+      });
+
+      it('stops tracking jobs once they reach a final state', async () => {
+        mockSubscriptions(
+          () => Promise.resolve(iterableOf([jobNotification('completed')])),
+          () => Promise.resolve(iterableOf([], true))
+        );
+        sdk.solana.rpc.getMultipleAccounts = vi.fn() as any;
+        const states: any[] = [];
+
+        const [eventStream, stopFn] = await jobs.monitor(undefined, {
+          reconnect,
+          onConnectionStateChange: (event) => states.push(event.state),
+        });
+        stop = stopFn;
+        const iterator = eventStream[Symbol.asyncIterator]();
+        await expect(iterator.next()).resolves.toMatchObject({
+          value: { data: { state: JobState.COMPLETED } },
+        });
+        iterator.next();
+        await vi.waitFor(() =>
+          expect(states.filter((state) => state === 'connected')).toHaveLength(2)
+        );
+
+        expect(sdk.solana.rpc.getMultipleAccounts).not.toHaveBeenCalled();
+      });
+
+      describe('polling transport', () => {
+        const pollResult = (slot: bigint, states: string[]) => ({
+          send: vi.fn().mockResolvedValue({
+            context: { slot },
+            value: states.map((state) => {
+              const { pubkey, account } = jobNotification(state).value;
+              return { pubkey, account };
+            }),
+          }),
+        });
+
+        const mockPolls = (...polls: ReturnType<typeof pollResult>[]) => {
+          const getProgramAccounts = vi.fn(() => pollResult(100n, []));
+          polls.forEach((poll) => getProgramAccounts.mockReturnValueOnce(poll));
+          sdk.solana.rpc.getProgramAccounts = getProgramAccounts as any;
+          return getProgramAccounts;
+        };
+
+        beforeEach(() => {
+          (sdk as any).solana.config = { monitor: { transport: 'polling', pollIntervalMs: 1 } };
+          vi.spyOn(programClient, 'decodeJobAccount' as any).mockImplementation((account: any) => {
+            const state = Buffer.from(account.data).toString();
+            return JobAccountFactory.create({
+              address: JOB_ADDR,
+              state: state === 'job-completed' ? JobState.COMPLETED : JobState.QUEUED,
+              timeout: BigInt(state === 'job-extended' ? 200 : 100),
+            });
+          });
+        });
+
+        it('polls queued job accounts and emits the ones that changed', async () => {
+          const getProgramAccounts = mockPolls(
+            pollResult(1n, ['queued']),
+            pollResult(1n, ['extended']),
+            pollResult(2n, ['extended'])
+          );
+          const states: any[] = [];
+
+          const [eventStream, stopFn] = await jobs.monitor(
+            { accountTypes: [MonitorEventType.JOB] },
+            { onConnectionStateChange: (event) => states.push(event) }
+          );
+          stop = stopFn;
+          for await (const event of eventStream) {
+            expect(event.data.timeout).toBe(200);
+            break;
+          }
+
+          expect(states).toEqual([{ state: 'connected', attempt: 0, transport: 'polling' }]);
+          expect(sdk.solana.rpcSubscriptions.programNotifications).not.toHaveBeenCalled();
+          // The other calls look up the run of the queued job
+          const polls = getProgramAccounts.mock.calls.filter(
+            ([, config]: any) => config.withContext
+          );
+          expect(polls).toHaveLength(3);
+          const [, config] = getProgramAccounts.mock.calls[0] as any[];
+          expect(config).toMatchObject({ encoding: 'base64', withContext: true });
+          expect(config.filters.map((f: any) => [f.memcmp.offset, f.memcmp.bytes])).toEqual([
+            [0n, bs58.encode(programClient.JOB_ACCOUNT_DISCRIMINATOR)],
+            [208n, bs58.encode(new Uint8Array([JobState.QUEUED]))],
+          ]);
+          expect((getProgramAccounts.mock.calls[2] as any[])[1].minContextSlot).toBe(1n);
+        });
+
+        it('re-fetches jobs that are no longer queued', async () => {
+          mockPolls(pollResult(1n, ['queued']), pollResult(2n, []));
+          sdk.solana.rpc.getMultipleAccounts = vi.fn(() => ({
+            send: vi.fn().mockResolvedValue({
+              context: { slot: 2n },
+              value: [jobNotification('completed').value.account],
+            }),
+          })) as any;
+
+          const [eventStream, stopFn] = await jobs.monitor({
+            accountTypes: [MonitorEventType.JOB],
+          });
+          stop = stopFn;
+          for await (const event of eventStream) {
+            expect(event.data.state).toBe(JobState.COMPLETED);
+            break;
+          }
+
+          expect(sdk.solana.rpc.getMultipleAccounts).toHaveBeenCalledWith([JOB_ADDR], {
+            encoding: 'base64',
+          });
+        });
+
+        it('falls back to polling when the WebSocket fails repeatedly', async () => {
+          (sdk as any).solana.config = {
+            monitor: { transport: 'auto', pollIntervalMs: 1, fallbackAfterFailures: 2 },
+          };
+          const subscribe = vi.fn().mockRejectedValue(new Error('socket closed'));
+          (sdk as any).solana.rpcSubscriptions = {
+            programNotifications: vi.fn().mockReturnValue({ subscribe }),
+          };
+          mockPolls(pollResult(1n, ['queued']), pollResult(2n, ['extended']));
+          const states: any[] = [];
+
+          const [eventStream, stopFn] = await jobs.monitor(
+            { accountTypes: [MonitorEventType.JOB] },
+            { reconnect, onConnectionStateChange: (event) => states.push(event.state) }
+          );
+          stop = stopFn;
+          for await (const event of eventStream) {
+            expect(event.data.timeout).toBe(200);
+            break;
+          }
+
+          expect(subscribe).toHaveBeenCalledTimes(2);
+          expect(states).toEqual(['disconnected', 'reconnecting', 'disconnected', 'connected']);
+        });
+      });
+    });
+
+    describe('watch', () => {
+      const createChannel = () => {
+        const queue: any[] = [];
+        let resolveNext: ((result: IteratorResult<any>) => void) | undefined;
+        return {
+          iterable: {
+            [Symbol.asyncIterator]: () => ({
+              next: () =>
+                queue.length > 0
+                  ? Promise.resolve({ done: false, value: queue.shift() })
+                  : new Promise<IteratorResult<any>>((resolve) => (resolveNext = resolve)),
+            }),
+          },
+          push(value: any) {
+            if (resolveNext) {
+              resolveNext({ done: false, value });
+              resolveNext = undefined;
+            } else {
+              queue.push(value);
+            }
+          },
+        };
+      };
+
+      const accountInfo = (lamports = 1000000n) => ({
+        data: [Buffer.from('account').toString('base64'), 'base64'],
+        executable: false,
+        lamports,
+        owner: sdk.config.programs.jobsAddress,
+        space: 233n,
+      });
+
+      let accountChannels: Record<string, ReturnType<typeof createChannel>>;
+      let runChannel: ReturnType<typeof createChannel>;
+
+      beforeEach(() => {
+        accountChannels = {};
+        runChannel = createChannel();
+        (sdk as any).solana.rpcSubscriptions = {
+          accountNotifications: vi.fn((address: Address) => {
+            accountChannels[address] = createChannel();
+            return { subscribe: vi.fn().mockResolvedValue(accountChannels[address].iterable) };
+          }),
+          programNotifications: vi.fn(() => ({
+            subscribe: vi.fn().mockResolvedValue(runChannel.iterable),
+          })),
+        };
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue([]),
+        })) as any;
+        vi.spyOn(programClient, 'fetchJobAccount' as any).mockResolvedValue(
+          makeJobAccount(JobState.QUEUED, JOB_ADDR)
+        );
+        vi.spyOn(programClient, 'decodeRunAccount' as any).mockReturnValue(
+          RunAccountFactory.create({
+            address: RUN_ADDR,
+            job: JOB_ADDR,
+            node: NODE_ADDR,
+            time: BigInt(RUN_TIME_555),
+          })
+        );
+      });
+
+      it('follows the job and its run account until the job is completed', async () => {
+        vi.spyOn(programClient, 'decodeJobAccount' as any).mockReturnValue(
+          makeJobAccount(JobState.COMPLETED, JOB_ADDR)
+        );
+        const iterator = jobs.watch(JOB_ADDR)[Symbol.asyncIterator]();
+
+        expect((await iterator.next()).value.state).toBe(JobState.QUEUED);
+        const [, runSubscription] = (sdk.solana.rpcSubscriptions.programNotifications as any).mock
+          .calls[0];
+        expect(runSubscription.filters[1].memcmp).toMatchObject({ offset: 8n, bytes: JOB_ADDR });
+
+        runChannel.push({ value: { pubkey: RUN_ADDR, account: accountInfo() } });
+        expect((await iterator.next()).value).toMatchObject({
+          state: JobState.RUNNING,
+          node: NODE_ADDR,
+          timeStart: RUN_TIME_555,
+        });
+        expect(sdk.solana.rpcSubscriptions.accountNotifications).toHaveBeenCalledWith(RUN_ADDR, {
+          encoding: 'base64',
+        });
+
+        accountChannels[JOB_ADDR].push({ value: accountInfo() });
+        expect((await iterator.next()).value.state).toBe(JobState.COMPLETED);
+        expect((await iterator.next()).done).toBe(true);
+      });
+
+      it('goes back to queued when the run account is closed', async () => {
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi
+            .fn()
+            .mockResolvedValue([{ pubkey: RUN_ADDR, account: { ...accountInfo(), space: 113n } }]),
+        })) as any;
+        const iterator = jobs.watch(JOB_ADDR)[Symbol.asyncIterator]();
+
+        expect((await iterator.next()).value.state).toBe(JobState.RUNNING);
+        accountChannels[RUN_ADDR].push({ value: accountInfo(0n) });
+        expect((await iterator.next()).value.state).toBe(JobState.QUEUED);
+      });
+
+      it('stops with the abort reason when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const stream = jobs.watch(JOB_ADDR, { signal: controller.signal });
+        const iterator = stream[Symbol.asyncIterator]();
+
+        await iterator.next();
+        const next = iterator.next();
+        controller.abort(new Error('cancelled'));
+
+        await expect(next).rejects.toThrow('cancelled');
+      });
+    });
+
+    describe('watchTransitions', () => {
+      const snapshot = (state: JobState, overrides: Record<string, unknown> = {}) =>
+        ({
+          address: JOB_ADDR,
+          market: MARKET_ADDR,
+          state,
+          node: SYSTEM_PROGRAM_ADDRESS,
+          timeout: 100,
+          ...overrides,
+        }) as any;
+      const jobEvent = (data: any) => ({ type: MonitorEventType.JOB, data });
+      const marketEvent = (queue: Address[]) => ({
+        type: MonitorEventType.MARKET,
+        data: { address: MARKET_ADDR, queueType: MarketQueueType.JOB_QUEUE, queue },
+      });
+      const streamOf = (events: any[]) =>
+        (async function* () {
+          yield* events;
+        })();
+
+      beforeEach(() => {
+        vi.spyOn(jobs, 'market').mockResolvedValue(marketEvent([]).data as any);
+      });
+
+      const collect = async (events: any[], openJobs: any[] = []) => {
+        vi.spyOn(jobs, 'monitor').mockResolvedValue([streamOf(events), vi.fn()]);
+        vi.spyOn(jobs, 'all').mockResolvedValue(openJobs);
+        const [transitions, stopFn] = await jobs.watchTransitions({ market: MARKET_ADDR });
+        stop = stopFn;
+        const collected: any[] = [];
+        for await (const transition of transitions) collected.push(transition);
+        return collected;
+      };
+
+      it('emits typed transitions with before and after snapshots', async () => {
+        const queued = snapshot(JobState.QUEUED);
+        const running = snapshot(JobState.RUNNING, { node: NODE_ADDR });
+        const extended = snapshot(JobState.RUNNING, { node: NODE_ADDR, timeout: 200 });
+        const completed = snapshot(JobState.COMPLETED, { node: NODE_ADDR, timeout: 200 });
+
+        const transitions = await collect([
+          jobEvent(queued),
+          jobEvent(queued),
+          jobEvent(running),
+          jobEvent(extended),
+          jobEvent(completed),
+        ]);
+
+        expect(jobs.monitor).toHaveBeenCalledWith({ market: MARKET_ADDR }, undefined);
+        expect(transitions).toEqual([
+          { type: JobTransitionType.POSTED, job: JOB_ADDR, before: null, after: queued },
+          { type: JobTransitionType.CLAIMED, job: JOB_ADDR, before: queued, after: running },
+          { type: JobTransitionType.EXTENDED, job: JOB_ADDR, before: running, after: extended },
+          { type: JobTransitionType.COMPLETED, job: JOB_ADDR, before: extended, after: completed },
+        ]);
+      });
+
+      it('compares jobs that exist when the stream starts against their snapshot', async () => {
+        const queued = snapshot(JobState.QUEUED);
+        const extended = snapshot(JobState.QUEUED, { timeout: 200 });
+
+        const transitions = await collect([jobEvent(extended)], [queued]);
+
+        expect(jobs.all).toHaveBeenCalledWith(
+          { market: MARKET_ADDR, state: JobState.QUEUED },
+          true
+        );
+        expect(transitions).toEqual([
+          { type: JobTransitionType.EXTENDED, job: JOB_ADDR, before: queued, after: extended },
+        ]);
+      });
+
+      it('reports jobs first seen while running as started', async () => {
+        const running = snapshot(JobState.RUNNING, { node: NODE_ADDR });
+        const stopped = snapshot(JobState.STOPPED, { node: NODE_ADDR });
+
+        const transitions = await collect([jobEvent(running), jobEvent(stopped)]);
+
+        expect(transitions.map((transition) => transition.type)).toEqual([
+          JobTransitionType.STARTED,
+          JobTransitionType.STOPPED,
+        ]);
+      });
+
+      it('detects delisted jobs when they leave the queue and their account is closed', async () => {
+        const queued = snapshot(JobState.QUEUED);
+        vi.spyOn(programClient, 'fetchMaybeJobAccount' as any).mockResolvedValue({
+          address: JOB_ADDR,
+          exists: false,
+        });
+
+        const transitions = await collect([
+          marketEvent([JOB_ADDR]),
+          jobEvent(queued),
+          marketEvent([]),
+        ]);
+
+        expect(programClient.fetchMaybeJobAccount).toHaveBeenCalledWith(sdk.solana.rpc, JOB_ADDR);
+        expect(transitions).toEqual([
+          { type: JobTransitionType.POSTED, job: JOB_ADDR, before: null, after: queued },
+          { type: JobTransitionType.DELISTED, job: JOB_ADDR, before: queued, after: null },
+        ]);
+      });
+
+      it('detects jobs delisted before the first update of their market', async () => {
+        const queued = snapshot(JobState.QUEUED);
+        vi.spyOn(jobs, 'market').mockResolvedValue(marketEvent([JOB_ADDR]).data as any);
+        vi.spyOn(programClient, 'fetchMaybeJobAccount' as any).mockResolvedValue({
+          address: JOB_ADDR,
+          exists: false,
+        });
+
+        const transitions = await collect([marketEvent([])], [queued]);
+
+        expect(jobs.market).toHaveBeenCalledWith(MARKET_ADDR);
+        expect(transitions).toEqual([
+          { type: JobTransitionType.DELISTED, job: JOB_ADDR, before: queued, after: null },
+        ]);
+      });
+
+      it('matches the node of the open jobs after merging their run accounts', async () => {
+        const running = snapshot(JobState.RUNNING, { node: NODE_ADDR });
+        const otherNode = snapshot(JobState.RUNNING, { address: newAddr(109), node: newAddr(110) });
+        const completed = snapshot(JobState.COMPLETED, { node: NODE_ADDR });
+        // The second monitor only follows the markets
+        vi.spyOn(jobs, 'monitor')
+          .mockResolvedValueOnce([streamOf([jobEvent(completed)]), vi.fn()])
+          .mockResolvedValueOnce([streamOf([]), vi.fn()]);
+        vi.spyOn(jobs, 'all').mockResolvedValue([running, otherNode]);
+
+        const [transitions, stopFn] = await jobs.watchTransitions({
+          market: MARKET_ADDR,
+          node: NODE_ADDR,
+        });
+        stop = stopFn;
+        const collected: any[] = [];
+        for await (const transition of transitions) collected.push(transition);
+
+        expect(jobs.all).toHaveBeenCalledWith(
+          { market: MARKET_ADDR, state: JobState.QUEUED },
+          true
+        );
+        expect(collected).toEqual([
+          { type: JobTransitionType.COMPLETED, job: JOB_ADDR, before: running, after: completed },
+        ]);
+      });
+
+      it('monitors the markets separately when filtering on job fields', async () => {
+        const queued = snapshot(JobState.QUEUED, { payer: NODE_ADDR });
+        vi.spyOn(programClient, 'fetchMaybeJobAccount' as any).mockResolvedValue({
+          address: JOB_ADDR,
+          exists: false,
+        });
+        const stopJobs = vi.fn();
+        const stopMarkets = vi.fn();
+        vi.spyOn(jobs, 'monitor')
+          .mockResolvedValueOnce([streamOf([jobEvent(queued)]), stopJobs])
+          .mockResolvedValueOnce([
+            (async function* () {
+              // Let the job stream go first, the queue changes after the job is posted
+              await new Promise((resolve) => setTimeout(resolve, 0));
+              yield marketEvent([JOB_ADDR]);
+              yield marketEvent([]);
+            })(),
+            stopMarkets,
+          ]);
+        vi.spyOn(jobs, 'all').mockResolvedValue([]);
+
+        const [transitions, stopFn] = await jobs.watchTransitions({
+          market: MARKET_ADDR,
+          payer: NODE_ADDR,
+        });
+        const collected: any[] = [];
+        for await (const transition of transitions) collected.push(transition);
+        stopFn();
+
+        expect(jobs.monitor).toHaveBeenNthCalledWith(
+          2,
+          { accountTypes: [MonitorEventType.MARKET], market: MARKET_ADDR },
+          undefined
+        );
+        expect(collected.map((transition) => transition.type)).toEqual([
+          JobTransitionType.POSTED,
+          JobTransitionType.DELISTED,
+        ]);
+        expect(stopJobs).toHaveBeenCalled();
+        expect(stopMarkets).toHaveBeenCalled();
+      });
+    });
   });
 });
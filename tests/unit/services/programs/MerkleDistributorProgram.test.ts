@@ -1,14 +1,31 @@
 import bs58 from 'bs58';
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 import {
   createMerkleDistributorProgram,
   type MerkleDistributorProgram,
   ALLOWED_RECEIVE_ADDRESSES,
   ClaimTarget,
+  buildMerkleTree,
+  getMerkleLeaf,
+  verifyMerkleProof,
+  readRecipientsCsv,
+  readRecipientsJson,
+  writeProofBundle,
+  readProofBundle,
+  getVestedAmount,
+  getWithdrawableLockedAmount,
 } from '../../../../src/services/programs/merkleDistributor/index.js';
 import * as merkleDistributorClient from '../../../../src/generated_clients/merkle_distributor/index.js';
-import { type Address, generateKeyPairSigner } from '@solana/kit';
+import {
+  type Address,
+  generateKeyPairSigner,
+  getAddressEncoder,
+  getProgramDerivedAddress,
+  getU64Encoder,
+  getUtf8Encoder,
+} from '@solana/kit';
 import {
   AddressFactory,
   MockClientFactory,
@@ -19,7 +36,11 @@ import {
 
 vi.mock('@solana-program/token', () => ({
   findAssociatedTokenPda: vi.fn(async () => ['ata']),
+  getCreateAssociatedTokenIdempotentInstruction: vi.fn((input: unknown) => ({
+    createAta: input,
+  })),
   TOKEN_PROGRAM_ADDRESS: 'TokenProg',
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS: 'AssociatedTokenProg',
 }));
 
 // Test constants
@@ -1133,6 +1154,658 @@ describe('MerkleDistributorProgram', () => {
     });
   });
 
+  describe('claimFromBundle', () => {
+    let walletSdk: ReturnType<typeof MockClientFactory.createMockWithWallet>['sdk'];
+    let walletProgram: MerkleDistributorProgram;
+    let bundle: Awaited<ReturnType<typeof readProofBundle>>;
+    const distributorAddr = newAddr(900);
+    const mockInstruction = { accounts: [], data: Buffer.from('test') };
+
+    const mockDistributor = (overrides: { root?: Uint8Array; version?: bigint } = {}) =>
+      vi.spyOn(merkleDistributorClient, 'fetchMerkleDistributor' as any).mockResolvedValue(
+        MerkleDistributorAccountFactory.create({
+          address: distributorAddr,
+          root: overrides.root ?? bundle.root,
+          version: overrides.version ?? bundle.version,
+        })
+      );
+
+    beforeEach(async () => {
+      walletSdk = MockClientFactory.createMockWithWallet();
+      walletSdk.solana = {
+        rpc: {} as any,
+        pda: vi.fn().mockResolvedValue(newAddr(901)),
+      } as any;
+      walletProgram = createMerkleDistributorProgram(
+        sdkToProgramDeps(walletSdk),
+        walletSdk.config.programs
+      );
+      const tree = await buildMerkleTree([
+        { claimant: newAddr(902), amountUnlocked: 100n, amountLocked: 0n },
+        { claimant: walletSdk.wallet!.address, amountUnlocked: 10000n, amountLocked: 5000n },
+        { claimant: newAddr(903), amountUnlocked: 0n, amountLocked: 300n },
+      ]);
+      bundle = readProofBundle(writeProofBundle(tree, 2));
+
+      vi.spyOn(merkleDistributorClient, 'fetchMaybeClaimStatus' as any).mockResolvedValue({
+        exists: false,
+      });
+      vi.spyOn(merkleDistributorClient, 'getNewClaimInstruction' as any).mockReturnValue(
+        mockInstruction
+      );
+    });
+
+    it('claims with the amounts and proof of the wallet', async () => {
+      mockDistributor();
+
+      const result = await walletProgram.claimFromBundle({
+        bundle,
+        distributor: distributorAddr,
+        target: ClaimTarget.YES,
+      });
+
+      expect(result).toBe(mockInstruction);
+      expect(merkleDistributorClient.getNewClaimInstruction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amountUnlocked: 10000n,
+          amountLocked: 5000n,
+          proof: bundle.getClaim(walletSdk.wallet!.address)!.proof,
+        }),
+        expect.anything()
+      );
+    });
+
+    it('claims for a claimant signer', async () => {
+      mockDistributor();
+      const claimant = { address: newAddr(903) } as any;
+
+      await walletProgram.claimFromBundle({
+        bundle,
+        distributor: distributorAddr,
+        target: ClaimTarget.NO,
+        claimant,
+      });
+
+      expect(merkleDistributorClient.getNewClaimInstruction).toHaveBeenCalledWith(
+        expect.objectContaining({ claimant, amountUnlocked: 0n, amountLocked: 300n }),
+        expect.anything()
+      );
+    });
+
+    it('throws when the claimant is not in the bundle', async () => {
+      await expect(
+        walletProgram.claimFromBundle({
+          bundle,
+          distributor: distributorAddr,
+          target: ClaimTarget.YES,
+          claimant: { address: newAddr(904) } as any,
+        })
+      ).rejects.toThrow('is not in the proof bundle');
+    });
+
+    it('throws when the bundle belongs to another distributor', async () => {
+      mockDistributor({ root: new Uint8Array(32).fill(7) });
+      await expect(
+        walletProgram.claimFromBundle({
+          bundle,
+          distributor: distributorAddr,
+          target: ClaimTarget.YES,
+        })
+      ).rejects.toThrow('does not belong to distributor');
+
+      mockDistributor({ version: 3n });
+      await expect(
+        walletProgram.claimFromBundle({
+          bundle,
+          distributor: distributorAddr,
+          target: ClaimTarget.YES,
+        })
+      ).rejects.toThrow('does not belong to distributor');
+    });
+
+    it('throws when the proof does not match the root', async () => {
+      mockDistributor();
+      bundle.getClaim(walletSdk.wallet!.address)!.amountLocked += 1n;
+
+      await expect(
+        walletProgram.claimFromBundle({
+          bundle,
+          distributor: distributorAddr,
+          target: ClaimTarget.YES,
+        })
+      ).rejects.toThrow('does not match the proof bundle root');
+    });
+
+    it('throws when no wallet or claimant is provided', async () => {
+      const program = createMerkleDistributorProgram(
+        sdkToProgramDeps(baseSdk()),
+        baseSdk().config.programs
+      );
+
+      await expect(
+        program.claimFromBundle({ bundle, distributor: distributorAddr, target: ClaimTarget.YES })
+      ).rejects.toThrow('Wallet not set');
+    });
+  });
+
+  describe('distributor admin', () => {
+    let walletSdk: ReturnType<typeof MockClientFactory.createMockWithWallet>['sdk'];
+    let walletProgram: MerkleDistributorProgram;
+    let admin: Address;
+    const vault = newAddr(1008);
+    const distributorAddr = newAddr(1000);
+    const mint = newAddr(1001);
+    const newDistributorParams = {
+      mint,
+      version: 2,
+      root: new Uint8Array(32).fill(5),
+      maxTotalClaim: 1_000_000n,
+      maxNumNodes: 10n,
+      startTs: 1_000_000,
+      endTs: 2_000_000,
+      clawbackStartTs: 2_086_400,
+      clawbackReceiver: newAddr(1002),
+    };
+
+    const mockDistributor = (
+      overrides: Parameters<typeof MerkleDistributorAccountFactory.create>[0] = {}
+    ) =>
+      vi.spyOn(merkleDistributorClient, 'fetchMerkleDistributor' as any).mockResolvedValue(
+        MerkleDistributorAccountFactory.create({
+          address: distributorAddr,
+          admin,
+          mint,
+          tokenVault: newAddr(1003),
+          clawbackReceiver: newAddr(1002),
+          ...overrides,
+        })
+      );
+
+    beforeEach(async () => {
+      walletSdk = MockClientFactory.createMockWithWallet();
+      walletSdk.solana = { rpc: {} as any } as any;
+      walletProgram = createMerkleDistributorProgram(
+        sdkToProgramDeps(walletSdk),
+        walletSdk.config.programs
+      );
+      admin = walletSdk.wallet!.address;
+      const token = await import('@solana-program/token');
+      vi.spyOn(token, 'findAssociatedTokenPda' as any).mockResolvedValue([vault]);
+    });
+
+    it('derives the distributor PDA from the mint and version', async () => {
+      const [expected] = await getProgramDerivedAddress({
+        programAddress: walletSdk.config.programs.merkleDistributorAddress,
+        seeds: [
+          getUtf8Encoder().encode('MerkleDistributor'),
+          getAddressEncoder().encode(mint),
+          getU64Encoder().encode(2n),
+        ],
+      });
+
+      expect(await walletProgram.getDistributorPda(mint, 2)).toBe(expected);
+      expect(await walletProgram.getDistributorPda(mint, 3)).not.toBe(expected);
+    });
+
+    it('creates the token vault and the distributor', async () => {
+      const distributor = await walletProgram.getDistributorPda(mint, 2);
+      const spy = vi
+        .spyOn(merkleDistributorClient, 'getNewDistributorInstruction' as any)
+        .mockReturnValue('newDistributor');
+
+      const [createVault, instruction] = await walletProgram.newDistributor({
+        ...newDistributorParams,
+        root: bs58.encode(newDistributorParams.root),
+      });
+
+      expect(instruction).toBe('newDistributor');
+      expect(createVault).toEqual({
+        createAta: expect.objectContaining({
+          payer: walletSdk.wallet,
+          ata: vault,
+          owner: distributor,
+          mint,
+        }),
+      });
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          distributor,
+          mint,
+          tokenVault: vault,
+          admin: walletSdk.wallet,
+          clawbackReceiver: newDistributorParams.clawbackReceiver,
+          associatedTokenProgram: 'AssociatedTokenProg',
+          version: 2,
+          root: newDistributorParams.root,
+          maxTotalClaim: 1_000_000n,
+          maxNumNodes: 10n,
+          startVestingTs: 1_000_000,
+          endVestingTs: 2_000_000,
+          clawbackStartTs: 2_086_400,
+          enableSlot: 0,
+          closable: false,
+        }),
+        { programAddress: walletSdk.config.programs.merkleDistributorAddress }
+      );
+    });
+
+    it('validates the vesting schedule and tree', async () => {
+      await expect(
+        walletProgram.newDistributor({ ...newDistributorParams, endTs: 1_000_000 })
+      ).rejects.toThrow('startTs < endTs < clawbackStartTs');
+      await expect(
+        walletProgram.newDistributor({ ...newDistributorParams, clawbackStartTs: 1_500_000 })
+      ).rejects.toThrow('startTs < endTs < clawbackStartTs');
+      await expect(
+        walletProgram.newDistributor({ ...newDistributorParams, clawbackStartTs: 2_000_001 })
+      ).rejects.toThrow('at least one day after endTs');
+      await expect(
+        walletProgram.newDistributor({ ...newDistributorParams, root: new Uint8Array(31) })
+      ).rejects.toThrow('Merkle root must be 32 bytes');
+      await expect(
+        walletProgram.newDistributor({ ...newDistributorParams, maxNumNodes: 0 })
+      ).rejects.toThrow('at least one node');
+    });
+
+    it('requires a wallet', async () => {
+      const program = createMerkleDistributorProgram(
+        sdkToProgramDeps(baseSdk()),
+        baseSdk().config.programs
+      );
+
+      await expect(program.newDistributor(newDistributorParams)).rejects.toThrow(
+        'Wallet is required for this operation'
+      );
+    });
+
+    it('sets the admin', async () => {
+      mockDistributor();
+      const spy = vi
+        .spyOn(merkleDistributorClient, 'getSetAdminInstruction' as any)
+        .mockReturnValue('setAdmin');
+
+      const result = await walletProgram.setAdmin({
+        distributor: distributorAddr,
+        newAdmin: newAddr(1004),
+      });
+
+      expect(result).toBe('setAdmin');
+      expect(spy).toHaveBeenCalledWith(
+        { distributor: distributorAddr, admin: walletSdk.wallet, newAdmin: newAddr(1004) },
+        { programAddress: walletSdk.config.programs.merkleDistributorAddress }
+      );
+      await expect(
+        walletProgram.setAdmin({ distributor: distributorAddr, newAdmin: admin })
+      ).rejects.toThrow('is already the admin');
+    });
+
+    it('sets the clawback receiver', async () => {
+      mockDistributor();
+      const spy = vi
+        .spyOn(merkleDistributorClient, 'getSetClawbackReceiverInstruction' as any)
+        .mockReturnValue('setClawbackReceiver');
+
+      await walletProgram.setClawbackReceiver({
+        distributor: distributorAddr,
+        newClawbackReceiver: newAddr(1005),
+      });
+
+      expect(spy).toHaveBeenCalledWith(
+        {
+          distributor: distributorAddr,
+          newClawbackAccount: newAddr(1005),
+          admin: walletSdk.wallet,
+        },
+        { programAddress: walletSdk.config.programs.merkleDistributorAddress }
+      );
+      await expect(
+        walletProgram.setClawbackReceiver({
+          distributor: distributorAddr,
+          newClawbackReceiver: newAddr(1002),
+        })
+      ).rejects.toThrow('is already the clawback receiver');
+    });
+
+    it('sets the enable slot', async () => {
+      mockDistributor();
+      const spy = vi
+        .spyOn(merkleDistributorClient, 'getSetEnableSlotInstruction' as any)
+        .mockReturnValue('setEnableSlot');
+
+      await walletProgram.setEnableSlot({ distributor: distributorAddr, enableSlot: 12345n });
+
+      expect(spy).toHaveBeenCalledWith(
+        { distributor: distributorAddr, admin: walletSdk.wallet, enableSlot: 12345n },
+        { programAddress: walletSdk.config.programs.merkleDistributorAddress }
+      );
+    });
+
+    it('rejects admin operations from another wallet', async () => {
+      mockDistributor({ admin: newAddr(1006) });
+
+      await expect(
+        walletProgram.setEnableSlot({ distributor: distributorAddr, enableSlot: 1 })
+      ).rejects.toThrow(`is not the admin ${newAddr(1006)} of distributor ${distributorAddr}`);
+      await expect(
+        walletProgram.closeDistributor({ distributor: distributorAddr })
+      ).rejects.toThrow('Cannot close distributor');
+    });
+
+    it('closes a closable distributor to the wallet token account', async () => {
+      mockDistributor({ closable: true });
+      const spy = vi
+        .spyOn(merkleDistributorClient, 'getCloseDistributorInstruction' as any)
+        .mockReturnValue('closeDistributor');
+
+      await walletProgram.closeDistributor({ distributor: distributorAddr });
+      await walletProgram.closeDistributor({
+        distributor: distributorAddr,
+        destination: newAddr(1007),
+      });
+
+      expect(spy).toHaveBeenNthCalledWith(
+        1,
+        {
+          distributor: distributorAddr,
+          tokenVault: newAddr(1003),
+          admin: walletSdk.wallet,
+          destinationTokenAccount: vault,
+          tokenProgram: 'TokenProg',
+        },
+        { programAddress: walletSdk.config.programs.merkleDistributorAddress }
+      );
+      expect(spy).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ destinationTokenAccount: newAddr(1007) }),
+        expect.anything()
+      );
+    });
+
+    it('refuses to close a distributor that is not closable', async () => {
+      mockDistributor({ closable: false });
+
+      await expect(
+        walletProgram.closeDistributor({ distributor: distributorAddr })
+      ).rejects.toThrow('was not created as closable');
+    });
+  });
+
+  describe('locked claims', () => {
+    let walletSdk: ReturnType<typeof MockClientFactory.createMockWithWallet>['sdk'];
+    let walletProgram: MerkleDistributorProgram;
+    const distributorAddr = newAddr(1100);
+    const claimStatusAddr = newAddr(1101);
+    const targetAta = newAddr(1102);
+    const now = Math.floor(Date.now() / 1000);
+
+    const mockAccounts = (
+      distributor: Parameters<typeof MerkleDistributorAccountFactory.create>[0] = {},
+      claimStatus: Parameters<typeof ClaimStatusAccountFactory.create>[0] | null = {}
+    ) => {
+      vi.spyOn(merkleDistributorClient, 'fetchMerkleDistributor' as any).mockResolvedValue(
+        MerkleDistributorAccountFactory.create({
+          address: distributorAddr,
+          admin: walletSdk.wallet!.address,
+          tokenVault: newAddr(1103),
+          startTs: BigInt(now - 1000),
+          endTs: BigInt(now + 1000),
+          ...distributor,
+        })
+      );
+      vi.spyOn(merkleDistributorClient, 'fetchMaybeClaimStatus' as any).mockResolvedValue(
+        claimStatus
+          ? {
+              exists: true,
+              ...ClaimStatusAccountFactory.create({
+                address: claimStatusAddr,
+                lockedAmount: 10_000n,
+                ...claimStatus,
+              }),
+            }
+          : { exists: false }
+      );
+    };
+
+    beforeEach(async () => {
+      walletSdk = MockClientFactory.createMockWithWallet();
+      walletSdk.solana = {
+        rpc: {} as any,
+        pda: vi.fn().mockResolvedValue(claimStatusAddr),
+      } as any;
+      walletProgram = createMerkleDistributorProgram(
+        sdkToProgramDeps(walletSdk),
+        walletSdk.config.programs
+      );
+      const token = await import('@solana-program/token');
+      vi.spyOn(token, 'findAssociatedTokenPda' as any).mockResolvedValue([targetAta]);
+    });
+
+    it('computes the vested amount like the program', () => {
+      expect(getVestedAmount(1000n, 100n, 200n, 99n)).toBe(0n);
+      expect(getVestedAmount(1000n, 100n, 200n, 100n)).toBe(0n);
+      expect(getVestedAmount(1000n, 100n, 200n, 133n)).toBe(330n);
+      expect(getVestedAmount(1000n, 100n, 200n, 200n)).toBe(1000n);
+      expect(getVestedAmount(1000n, 100n, 200n, 500n)).toBe(1000n);
+    });
+
+    it('computes the withdrawable locked amount', () => {
+      const claimStatus = { lockedAmount: 1000, lockedAmountWithdrawn: 250 } as any;
+      const distributor = { startTs: 100, endTs: 200 } as any;
+
+      expect(getWithdrawableLockedAmount(claimStatus, distributor, new Date(150_000))).toBe(250n);
+      expect(getWithdrawableLockedAmount(claimStatus, distributor, new Date(120_000))).toBe(0n);
+      expect(getWithdrawableLockedAmount(claimStatus, distributor, new Date(300_000))).toBe(750n);
+    });
+
+    it('claims the vested locked tokens', async () => {
+      mockAccounts();
+      const spy = vi
+        .spyOn(merkleDistributorClient, 'getClaimLockedInstruction' as any)
+        .mockReturnValue('claimLocked');
+
+      const result = await walletProgram.claimLocked({
+        distributor: distributorAddr,
+        target: ClaimTarget.NO,
+      });
+
+      expect(result).toBe('claimLocked');
+      expect(walletSdk.solana.pda).toHaveBeenCalledWith(
+        ['ClaimStatus', walletSdk.wallet!.address, distributorAddr],
+        walletSdk.config.programs.merkleDistributorAddress
+      );
+      expect(spy).toHaveBeenCalledWith(
+        {
+          distributor: distributorAddr,
+          claimStatus: claimStatusAddr,
+          from: newAddr(1103),
+          to: targetAta,
+          claimant: walletSdk.wallet,
+          tokenProgram: 'TokenProg',
+        },
+        { programAddress: walletSdk.config.programs.merkleDistributorAddress }
+      );
+    });
+
+    it('refuses a claim with nothing to withdraw', async () => {
+      mockAccounts({ startTs: BigInt(now + 100), endTs: BigInt(now + 1000) });
+      await expect(
+        walletProgram.claimLocked({ distributor: distributorAddr, target: ClaimTarget.YES })
+      ).rejects.toThrow('nothing has vested since the last withdrawal');
+
+      mockAccounts({ endTs: BigInt(now - 10) }, { lockedAmountWithdrawn: 10_000n });
+      await expect(
+        walletProgram.claimLocked({ distributor: distributorAddr, target: ClaimTarget.YES })
+      ).rejects.toThrow('all locked tokens have been withdrawn');
+    });
+
+    it('refuses to claim without a claim status or after a clawback', async () => {
+      mockAccounts({}, null);
+      await expect(
+        walletProgram.claimLocked({ distributor: distributorAddr, target: ClaimTarget.YES })
+      ).rejects.toThrow('has not claimed from distributor');
+
+      mockAccounts({ clawedBack: true });
+      await expect(
+        walletProgram.claimLocked({ distributor: distributorAddr, target: ClaimTarget.YES })
+      ).rejects.toThrow('has been clawed back');
+    });
+
+    it('closes a closable claim status', async () => {
+      mockAccounts({}, { closable: true });
+      const spy = vi
+        .spyOn(merkleDistributorClient, 'getCloseClaimStatusInstruction' as any)
+        .mockReturnValue('closeClaimStatus');
+
+      const result = await walletProgram.closeClaimStatus({
+        distributor: distributorAddr,
+        claimant: newAddr(1104),
+      });
+
+      expect(result).toBe('closeClaimStatus');
+      expect(walletSdk.solana.pda).toHaveBeenCalledWith(
+        ['ClaimStatus', newAddr(1104), distributorAddr],
+        walletSdk.config.programs.merkleDistributorAddress
+      );
+      expect(spy).toHaveBeenCalledWith(
+        {
+          claimStatus: claimStatusAddr,
+          claimant: newAddr(1104),
+          admin: walletSdk.wallet,
+          distributor: distributorAddr,
+        },
+        { programAddress: walletSdk.config.programs.merkleDistributorAddress }
+      );
+    });
+
+    it('refuses to close a claim status it cannot close', async () => {
+      const params = { distributor: distributorAddr, claimant: newAddr(1104) };
+
+      mockAccounts({}, { closable: false });
+      await expect(walletProgram.closeClaimStatus(params)).rejects.toThrow(
+        'was not created as closable'
+      );
+
+      mockAccounts({}, null);
+      await expect(walletProgram.closeClaimStatus(params)).rejects.toThrow(
+        'has no claim status for distributor'
+      );
+
+      mockAccounts({ admin: newAddr(1105) }, { closable: true });
+      await expect(walletProgram.closeClaimStatus(params)).rejects.toThrow(
+        'Cannot close claim status'
+      );
+    });
+  });
+
+  describe('reporting', () => {
+    const distributorAddr = newAddr(1200);
+    let program: MerkleDistributorProgram;
+
+    beforeEach(() => {
+      const sdk = baseSdk();
+      program = createMerkleDistributorProgram(sdkToProgramDeps(sdk), sdk.config.programs);
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(1_500_000 * 1000));
+      vi.spyOn(merkleDistributorClient, 'fetchMerkleDistributor' as any).mockResolvedValue(
+        MerkleDistributorAccountFactory.create({
+          address: distributorAddr,
+          maxTotalClaim: BigInt(CUSTOM_MAX_TOTAL_CLAIM),
+          maxNumNodes: BigInt(CUSTOM_MAX_NUM_NODES),
+          totalAmountClaimed: BigInt(CUSTOM_AMOUNT_CLAIMED),
+          totalAmountForgone: BigInt(CUSTOM_AMOUNT_FORGONE),
+          numNodesClaimed: BigInt(CUSTOM_NUM_NODES_CLAIMED),
+          startTs: BigInt(CUSTOM_START_TS),
+          endTs: BigInt(CUSTOM_START_TS + 4 * 86_400),
+          clawbackStartTs: BigInt(1_600_000),
+        })
+      );
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('reports claim progress, clawback and unlock state', async () => {
+      const stats = await program.stats(distributorAddr);
+
+      expect(stats).toEqual({
+        totalAmountClaimed: CUSTOM_AMOUNT_CLAIMED,
+        maxTotalClaim: CUSTOM_MAX_TOTAL_CLAIM,
+        claimedPercentage: 20,
+        numNodesClaimed: CUSTOM_NUM_NODES_CLAIMED,
+        maxNumNodes: CUSTOM_MAX_NUM_NODES,
+        nodesClaimedPercentage: 2,
+        totalAmountForgone: CUSTOM_AMOUNT_FORGONE,
+        clawbackStartTime: new Date(1_600_000 * 1000),
+        secondsUntilClawback: 100_000,
+        clawedBack: false,
+        unlockPercentage: 100,
+      });
+    });
+
+    it('reports the unlock percentage through the vesting period', async () => {
+      const distributor = await program.get(distributorAddr);
+
+      vi.setSystemTime(new Date((CUSTOM_START_TS - 1) * 1000));
+      expect((await program.stats(distributor)).unlockPercentage).toBe(0);
+      vi.setSystemTime(new Date((CUSTOM_START_TS + 86_400) * 1000));
+      expect((await program.stats(distributor)).unlockPercentage).toBe(25);
+      vi.setSystemTime(new Date(1_700_000 * 1000));
+      expect(await program.stats(distributor)).toMatchObject({
+        unlockPercentage: 100,
+        secondsUntilClawback: 0,
+      });
+      expect(merkleDistributorClient.fetchMerkleDistributor).toHaveBeenCalledTimes(1);
+    });
+
+    it('projects the vesting schedule per day', async () => {
+      vi.setSystemTime(new Date((CUSTOM_START_TS + 43_200) * 1000));
+      const claimStatus = {
+        distributor: distributorAddr,
+        lockedAmount: 4000,
+        lockedAmountWithdrawn: 1000,
+      } as any;
+
+      const schedule = await program.vestingSchedule(claimStatus);
+
+      expect(
+        schedule.map(({ unlocked, vested, withdrawable }) => [unlocked, vested, withdrawable])
+      ).toEqual([
+        [1000, 1500, 500],
+        [1000, 2500, 1500],
+        [1000, 3500, 2500],
+        [500, 4000, 3000],
+      ]);
+      expect(schedule[0].date).toEqual(new Date((CUSTOM_START_TS + 129_600) * 1000));
+      expect(schedule[3].date).toEqual(new Date((CUSTOM_START_TS + 4 * 86_400) * 1000));
+      expect(merkleDistributorClient.fetchMerkleDistributor).toHaveBeenCalledWith(
+        expect.anything(),
+        distributorAddr
+      );
+    });
+
+    it('projects from the vesting start and ends once fully vested', async () => {
+      const claimStatus = {
+        distributor: distributorAddr,
+        lockedAmount: 4000,
+        lockedAmountWithdrawn: 0,
+      } as any;
+
+      const fromBefore = await program.vestingSchedule(claimStatus, {
+        from: new Date((CUSTOM_START_TS - 86_400 * 10) * 1000),
+      });
+      expect(fromBefore).toHaveLength(4);
+      expect(fromBefore[0]).toEqual({
+        date: new Date((CUSTOM_START_TS + 86_400) * 1000),
+        unlocked: 1000,
+        vested: 1000,
+        withdrawable: 1000,
+      });
+
+      expect(await program.vestingSchedule(claimStatus)).toEqual([]);
+    });
+  });
+
   describe('integration scenarios', () => {
     let sdk: ReturnType<typeof MockClientFactory.createMockWithRpc>['sdk'];
     let program: MerkleDistributorProgram;
@@ -1241,3 +1914,228 @@ describe('MerkleDistributorProgram', () => {
     });
   });
 });
+
+describe('merkle', () => {
+  const sha256 = (...parts: Uint8Array[]) =>
+    new Uint8Array(createHash('sha256').update(Buffer.concat(parts)).digest());
+  const u64le = (value: bigint) => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeBigUInt64LE(value);
+    return bytes;
+  };
+  const recipients = [
+    { claimant: newAddr(1), amountUnlocked: 1000n, amountLocked: 500n },
+    { claimant: newAddr(2), amountUnlocked: 2000, amountLocked: 0 },
+    { claimant: newAddr(3), amountUnlocked: 0n, amountLocked: 3000n },
+  ];
+
+  it('hashes leaves like the program', async () => {
+    const { claimant, amountUnlocked, amountLocked } = recipients[0];
+    const expected = sha256(
+      new Uint8Array([0]),
+      sha256(bs58.decode(claimant), u64le(amountUnlocked), u64le(amountLocked))
+    );
+
+    expect(await getMerkleLeaf(recipients[0])).toEqual(expected);
+  });
+
+  it('builds the root, totals and proofs', async () => {
+    const tree = await buildMerkleTree(recipients);
+    const [a, b, c] = await Promise.all(recipients.map((r) => getMerkleLeaf(r)));
+    const hashPair = (x: Uint8Array, y: Uint8Array) =>
+      Buffer.compare(x, y) <= 0
+        ? sha256(new Uint8Array([1]), x, y)
+        : sha256(new Uint8Array([1]), y, x);
+    const ab = hashPair(a, b);
+    const cc = hashPair(c, c);
+
+    expect(tree.root).toEqual(hashPair(ab, cc));
+    expect(tree.maxTotalClaim).toBe(6500n);
+    expect(tree.maxNumNodes).toBe(3n);
+    expect(tree.claims[0].proof).toEqual([b, cc]);
+    expect(tree.claims[2].proof).toEqual([c, ab]);
+    expect(tree.getClaim(newAddr(2))).toEqual({
+      claimant: newAddr(2),
+      amountUnlocked: 2000n,
+      amountLocked: 0n,
+      proof: [a, cc],
+    });
+    expect(tree.getClaim(newAddr(4))).toBeNull();
+  });
+
+  it('builds a single leaf tree with an empty proof', async () => {
+    const tree = await buildMerkleTree([recipients[0]]);
+
+    expect(tree.root).toEqual(await getMerkleLeaf(recipients[0]));
+    expect(tree.claims[0].proof).toEqual([]);
+  });
+
+  it('verifies every proof against the root', async () => {
+    const many = Array.from({ length: 11 }, (_, i) => ({
+      claimant: newAddr(100 + i),
+      amountUnlocked: BigInt(i * 10),
+      amountLocked: BigInt(i),
+    }));
+    const tree = await buildMerkleTree(many);
+
+    for (const claim of tree.claims) {
+      expect(claim.proof).toHaveLength(4);
+      expect(await verifyMerkleProof({ root: tree.root, ...claim })).toBe(true);
+    }
+  });
+
+  it('verifies against a base58 root', async () => {
+    const tree = await buildMerkleTree(recipients);
+
+    expect(await verifyMerkleProof({ root: bs58.encode(tree.root), ...tree.claims[1] })).toBe(true);
+  });
+
+  it('rejects tampered amounts and proofs', async () => {
+    const tree = await buildMerkleTree(recipients);
+    const claim = tree.claims[0];
+
+    expect(await verifyMerkleProof({ root: tree.root, ...claim, amountUnlocked: 1001n })).toBe(
+      false
+    );
+    expect(
+      await verifyMerkleProof({ root: tree.root, ...claim, proof: [...claim.proof].reverse() })
+    ).toBe(false);
+  });
+
+  it('rejects invalid recipients', async () => {
+    await expect(buildMerkleTree([])).rejects.toThrow('at least one recipient');
+    await expect(buildMerkleTree([recipients[0], recipients[0]])).rejects.toThrow(
+      'appears more than once'
+    );
+    await expect(
+      buildMerkleTree([{ claimant: newAddr(1), amountUnlocked: -1, amountLocked: 0 }])
+    ).rejects.toThrow('unsigned 64-bit integer');
+    await expect(
+      buildMerkleTree([{ claimant: newAddr(1), amountUnlocked: 1.5, amountLocked: 0 }])
+    ).rejects.toThrow('integer amount of base units');
+    await expect(
+      buildMerkleTree([
+        { claimant: newAddr(1), amountUnlocked: 2n ** 63n, amountLocked: 0 },
+        { claimant: newAddr(2), amountUnlocked: 2n ** 63n, amountLocked: 0 },
+      ])
+    ).rejects.toThrow('total of all claims');
+  });
+});
+
+describe('recipient files', () => {
+  const [a, b] = [newAddr(1), newAddr(2)];
+
+  it('reads CSV with columns in any order', () => {
+    const csv = `amountLocked,claimant,amountUnlocked\r\n500,${a},1000\n\n"0","${b}",18446744073709551615\n`;
+
+    expect(readRecipientsCsv(csv)).toEqual([
+      { claimant: a, amountUnlocked: 1000n, amountLocked: 500n },
+      { claimant: b, amountUnlocked: 18446744073709551615n, amountLocked: 0n },
+    ]);
+  });
+
+  it('rejects malformed CSV', () => {
+    expect(() => readRecipientsCsv(`claimant,amountUnlocked\n${a},1`)).toThrow(
+      'missing the column(s) amountLocked'
+    );
+    expect(() => readRecipientsCsv('')).toThrow('missing the column(s)');
+    expect(() => readRecipientsCsv(`claimant,amountUnlocked,amountLocked\n${a},1`)).toThrow(
+      'Line 2 of the recipients CSV has 2 cells, expected 3'
+    );
+  });
+
+  it('rejects invalid CSV entries', () => {
+    const header = 'claimant,amountUnlocked,amountLocked';
+
+    expect(() => readRecipientsCsv(`${header}\nnot-base58-0OIl,1,1`)).toThrow(
+      'claimant on line 2 is not a valid base58 address'
+    );
+    expect(() => readRecipientsCsv(`${header}\n${a},1,1\n${a},2,2`)).toThrow(
+      `Claimant ${a} on line 3 is a duplicate of line 2`
+    );
+    expect(() => readRecipientsCsv(`${header}\n${a},18446744073709551616,0`)).toThrow(
+      'amountUnlocked on line 2 overflows an unsigned 64-bit integer'
+    );
+    expect(() => readRecipientsCsv(`${header}\n${a},1,-1`)).toThrow(
+      'amountLocked on line 2 must be a non-negative integer'
+    );
+  });
+
+  it('reads JSON with numeric and string amounts', () => {
+    const json = JSON.stringify([
+      { claimant: a, amountUnlocked: 1000, amountLocked: '500' },
+      { claimant: b, amountUnlocked: '18446744073709551615', amountLocked: 0 },
+    ]);
+
+    expect(readRecipientsJson(json)).toEqual([
+      { claimant: a, amountUnlocked: 1000n, amountLocked: 500n },
+      { claimant: b, amountUnlocked: 18446744073709551615n, amountLocked: 0n },
+    ]);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => readRecipientsJson('{')).toThrow('could not be parsed');
+    expect(() => readRecipientsJson('{}')).toThrow('must be an array');
+    expect(() => readRecipientsJson('[1]')).toThrow('Entry 0 of the recipients JSON');
+    expect(() =>
+      readRecipientsJson(`[{"claimant":"${a}","amountUnlocked":1e20,"amountLocked":0}]`)
+    ).toThrow('use a string for larger amounts');
+    expect(() =>
+      readRecipientsJson(
+        JSON.stringify([
+          { claimant: a, amountUnlocked: 1, amountLocked: 1 },
+          { claimant: a, amountUnlocked: 1, amountLocked: 1 },
+        ])
+      )
+    ).toThrow('is a duplicate of entry 0');
+  });
+
+  it('round trips a proof bundle', async () => {
+    const tree = await buildMerkleTree(
+      readRecipientsCsv(`claimant,amountUnlocked,amountLocked\n${a},1000,500\n${b},20,0`)
+    );
+    const json = writeProofBundle(tree, 3);
+    const bundle = readProofBundle(json);
+
+    expect(JSON.parse(json)).toEqual({
+      version: '3',
+      root: bs58.encode(tree.root),
+      maxTotalClaim: '1520',
+      maxNumNodes: '2',
+      claims: tree.claims.map((claim) => ({
+        claimant: claim.claimant,
+        amountUnlocked: claim.amountUnlocked.toString(),
+        amountLocked: claim.amountLocked.toString(),
+        proof: claim.proof.map((hash) => bs58.encode(hash)),
+      })),
+    });
+    expect(bundle.version).toBe(3n);
+    expect(bundle.root).toEqual(tree.root);
+    expect(bundle.maxTotalClaim).toBe(1520n);
+    expect(bundle.maxNumNodes).toBe(2n);
+    expect(bundle.claims).toEqual(tree.claims);
+    expect(bundle.getClaim(b)).toEqual(tree.getClaim(b));
+    expect(bundle.getClaim(newAddr(3))).toBeNull();
+  });
+
+  it('rejects malformed proof bundles', async () => {
+    const json = JSON.parse(
+      writeProofBundle(
+        await buildMerkleTree([{ claimant: a, amountUnlocked: 1n, amountLocked: 0n }]),
+        0
+      )
+    );
+
+    expect(() => readProofBundle('[')).toThrow('could not be parsed');
+    expect(() => readProofBundle('{}')).toThrow('must be an object with claims');
+    expect(() => readProofBundle(JSON.stringify({ ...json, root: 'abc' }))).toThrow(
+      'Root of the proof bundle is not a base58 encoded 32 byte hash'
+    );
+    expect(() => readProofBundle(JSON.stringify({ ...json, version: 1 }))).toThrow(
+      'version of the proof bundle must be an unsigned 64-bit integer string'
+    );
+    expect(() =>
+      readProofBundle(JSON.stringify({ ...json, claims: [{ ...json.claims[0], proof: ['0OIl'] }] }))
+    ).toThrow('Proof 0 of claim 0');
+  });
+});
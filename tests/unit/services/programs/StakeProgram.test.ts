@@ -1,10 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   createStakeProgram,
+  StakeEventType,
+  type StakeEvent,
   type StakeProgram,
 } from '../../../../src/services/programs/stake/index.js';
 import * as stakingClient from '../../../../src/generated_clients/staking/index.js';
 import { type Address } from '@solana/kit';
+import { ErrorCodes } from '../../../../src/errors/NosanaError.js';
 import {
   AddressFactory,
   MockClientFactory,
@@ -174,6 +177,72 @@ describe('StakeProgram', () => {
       });
     });
 
+    describe('getStakePda', () => {
+      it('derives the stake PDA of the given authority', async () => {
+        const authority = newAddr(310);
+        const pda = newAddr(311);
+        (sdk as any).solana.pda = vi.fn(async () => pda);
+
+        const result = await stake.getStakePda(authority);
+
+        expect(result).toBe(pda);
+        expect(sdk.solana.pda).toHaveBeenCalledWith(
+          ['stake', sdk.config.programs.nosTokenAddress, authority],
+          sdk.config.programs.stakeAddress
+        );
+      });
+
+      it('defaults to the wallet address', async () => {
+        const walletAddr = newAddr(312);
+        (sdk as any).wallet = { address: walletAddr };
+        (sdk as any).solana.pda = vi.fn(async () => newAddr(313));
+
+        await stake.getStakePda();
+
+        expect(sdk.solana.pda).toHaveBeenCalledWith(
+          ['stake', sdk.config.programs.nosTokenAddress, walletAddr],
+          sdk.config.programs.stakeAddress
+        );
+      });
+
+      it('throws without wallet or authority', async () => {
+        (sdk as any).wallet = undefined;
+
+        await expect(stake.getStakePda()).rejects.toThrow('Wallet not set');
+      });
+    });
+
+    describe('forAuthority', () => {
+      const authority = newAddr(320);
+      const pda = newAddr(321);
+
+      beforeEach(() => {
+        (sdk as any).solana.pda = vi.fn(async () => pda);
+      });
+
+      it('returns the stake of the authority', async () => {
+        vi.spyOn(stakingClient, 'fetchMaybeStakeAccount' as any).mockResolvedValue({
+          exists: true,
+          ...makeStakeAccount(CUSTOM_STAKE_AMOUNT, pda),
+        });
+
+        const result = await stake.forAuthority(authority);
+
+        expect(result?.address).toBe(pda);
+        expect(result?.amount).toBe(CUSTOM_STAKE_AMOUNT);
+        expect(stakingClient.fetchMaybeStakeAccount).toHaveBeenCalledWith(sdk.solana.rpc, pda);
+      });
+
+      it('returns null when the authority has not staked', async () => {
+        vi.spyOn(stakingClient, 'fetchMaybeStakeAccount' as any).mockResolvedValue({
+          exists: false,
+          address: pda,
+        });
+
+        expect(await stake.forAuthority(authority)).toBeNull();
+      });
+    });
+
     describe('multiple', () => {
       it('should fetch and transform multiple stake accounts', async () => {
         const addresses = [newAddr(400), newAddr(401), newAddr(402)];
@@ -252,6 +321,21 @@ describe('StakeProgram', () => {
         expect(result[4].amount).toBe(DEFAULT_STAKE_AMOUNT * 5);
       });
 
+      it('should filter on authority', async () => {
+        const authority = newAddr(410);
+        sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+          send: vi.fn().mockResolvedValue([]),
+        })) as any;
+
+        await stake.all({ authority });
+
+        const { filters } = (sdk.solana.rpc.getProgramAccounts as any).mock.calls[0][1];
+        expect(filters).toHaveLength(2);
+        expect(filters[1]).toEqual({
+          memcmp: { offset: 16n, bytes: authority, encoding: 'base58' },
+        });
+      });
+
       it('should handle empty results', async () => {
         sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
           send: vi.fn().mockResolvedValue([]),
@@ -313,6 +397,675 @@ describe('StakeProgram', () => {
     });
   });
 
+  describe('xNOS', () => {
+    let stake: StakeProgram;
+    const DAY = 86_400;
+    const toStake = (overrides?: Parameters<typeof StakeAccountFactory.create>[0]) => ({
+      address: newAddr(650),
+      ...StakeAccountFactory.create(overrides).data,
+    });
+
+    beforeEach(() => {
+      const sdk = baseSdk();
+      stake = createStakeProgram(sdkToProgramDeps(sdk), sdk.config.programs);
+    });
+
+    it('computeXnos applies the duration multiplier', () => {
+      expect(stake.computeXnos(1000, { days: 365 })).toBe(4000);
+      expect(stake.computeXnos(1000, { seconds: 31_536_000 / 3 })).toBe(2000);
+      // The multiplier is rounded down to 15 decimals, as on-chain
+      expect(stake.computeXnos(1000, { days: 30 })).toBe(1246.575342);
+    });
+
+    it('computeXnos rejects durations outside the staking limits', () => {
+      expect(() => stake.computeXnos(1000, { days: 7 })).toThrow(
+        'expected between 14 and 365 days'
+      );
+    });
+
+    it('projectXnos previews a topup and an extension', () => {
+      const current = toStake({
+        amount: 1_000_000_000n,
+        duration: BigInt(182.5 * DAY),
+        xnos: 2_500_000_000n,
+      });
+
+      expect(stake.projectXnos(current, { topupBy: 1000, extendBy: { days: 182.5 } })).toEqual({
+        amount: 2000,
+        duration: 365 * DAY,
+        xnos: 8000,
+        xnosIncrease: 5500,
+      });
+    });
+
+    it('projectXnos rejects an extension past 365 days', () => {
+      const current = toStake({ duration: BigInt(300 * DAY) });
+
+      expect(() => stake.projectXnos(current, { extendBy: { days: 100 } })).toThrow(
+        'expected between 14 and 365 days'
+      );
+    });
+
+    it('projectXnos rejects an unstaked stake', () => {
+      const current = toStake({ timeUnstake: 1_700_000_000n });
+
+      expect(() => stake.projectXnos(current, { topupBy: 1 })).toThrow('already unstaked');
+    });
+
+    it('unlockTime is null until the stake is unstaked', () => {
+      expect(stake.unlockTime(toStake())).toBeNull();
+      expect(
+        stake.unlockTime(toStake({ timeUnstake: 1_700_000_000n, duration: BigInt(14 * DAY) }))
+      ).toEqual(new Date((1_700_000_000 + 14 * DAY) * 1000));
+    });
+  });
+
+  describe('instructions', () => {
+    let sdk: ReturnType<typeof MockClientFactory.createMockWithRpc>['sdk'];
+    let stake: StakeProgram;
+    const walletAddr = newAddr(600);
+    const stakePda = newAddr(601);
+    const vaultPda = newAddr(602);
+    const rewardPda = newAddr(603);
+    const ataAddr = newAddr(604);
+    const settingsPda = newAddr(605);
+    const slashTokenAccount = newAddr(606);
+    const now = () => Math.floor(Date.now() / 1000);
+
+    const mockStake = (overrides?: Parameters<typeof StakeAccountFactory.create>[0]) =>
+      vi
+        .spyOn(stakingClient, 'fetchStakeAccount' as any)
+        .mockResolvedValue(
+          StakeAccountFactory.create({ address: stakePda, authority: walletAddr, ...overrides })
+        );
+
+    beforeEach(() => {
+      const ctx = MockClientFactory.createMockWithRpc();
+      sdk = ctx.sdk;
+      (sdk as any).wallet = {
+        address: walletAddr,
+        signMessages: async () => [],
+        signTransactions: async () => [],
+      };
+      (sdk as any).solana.pda = vi.fn(async (seeds: unknown[]) => {
+        switch (seeds[0]) {
+          case 'stake':
+            return stakePda;
+          case 'vault':
+            return vaultPda;
+          case 'settings':
+            return settingsPda;
+          default:
+            return rewardPda;
+        }
+      });
+      (sdk as any).nos.getATA = vi.fn(async () => ataAddr);
+      stake = createStakeProgram(sdkToProgramDeps(sdk), sdk.config.programs);
+    });
+
+    it('stake converts NOS and days and derives the stake accounts', async () => {
+      const stakeSpy = vi.spyOn(stakingClient, 'getStakeInstruction');
+
+      const instruction = await stake.stake({ amount: 1000.5, duration: { days: 30 } });
+
+      const args = stakeSpy.mock.calls[0][0];
+      expect(args.amount).toBe(1_000_500_000n);
+      expect(args.duration).toBe(2_592_000n);
+      expect(args.stake).toBe(stakePda);
+      expect(args.vault).toBe(vaultPda);
+      expect(args.user).toBe(ataAddr);
+      expect(args.mint).toBe(sdk.config.programs.nosTokenAddress);
+      expect(sdk.solana.pda).toHaveBeenCalledWith(
+        ['stake', sdk.config.programs.nosTokenAddress, walletAddr],
+        sdk.config.programs.stakeAddress
+      );
+      expect(instruction.programAddress).toBe(sdk.config.programs.stakeAddress);
+    });
+
+    it('stake accepts durations in seconds', async () => {
+      const stakeSpy = vi.spyOn(stakingClient, 'getStakeInstruction');
+
+      await stake.stake({ amount: 1, duration: { seconds: 1_209_600 } });
+
+      expect(stakeSpy.mock.calls[0][0].duration).toBe(1_209_600n);
+    });
+
+    it.each([[{ days: 13 }], [{ days: 366 }], [{ seconds: 1.5 }], [{ days: Number.NaN }]])(
+      'stake rejects duration %j',
+      async (duration) => {
+        await expect(stake.stake({ amount: 1, duration })).rejects.toMatchObject({
+          code: ErrorCodes.VALIDATION_ERROR,
+        });
+      }
+    );
+
+    it('stake rejects a zero amount', async () => {
+      await expect(stake.stake({ amount: 0, duration: { days: 14 } })).rejects.toMatchObject({
+        code: ErrorCodes.VALIDATION_ERROR,
+      });
+    });
+
+    it('requires a wallet', async () => {
+      (sdk as any).wallet = undefined;
+
+      await expect(stake.stake({ amount: 1, duration: { days: 14 } })).rejects.toMatchObject({
+        code: ErrorCodes.NO_WALLET,
+      });
+    });
+
+    it('unstake derives the reward account of the wallet', async () => {
+      mockStake();
+      const unstakeSpy = vi.spyOn(stakingClient, 'getUnstakeInstruction');
+
+      await stake.unstake();
+
+      expect(unstakeSpy.mock.calls[0][0].reward).toBe(rewardPda);
+      expect(sdk.solana.pda).toHaveBeenCalledWith(
+        ['reward', walletAddr],
+        sdk.config.programs.rewardsAddress
+      );
+    });
+
+    it('unstake rejects a stake that is already unstaked', async () => {
+      mockStake({ timeUnstake: BigInt(now()) });
+
+      await expect(stake.unstake()).rejects.toMatchObject({
+        code: ErrorCodes.VALIDATION_ERROR,
+      });
+    });
+
+    it('restake and withdraw require an unstaked stake', async () => {
+      mockStake();
+
+      await expect(stake.restake()).rejects.toThrow('it is not unstaked');
+      await expect(stake.withdraw()).rejects.toThrow('it is not unstaked');
+    });
+
+    it('withdraw sends the released tokens to the wallet ATA', async () => {
+      mockStake({ timeUnstake: BigInt(now()) });
+      const withdrawSpy = vi.spyOn(stakingClient, 'getWithdrawInstruction');
+
+      await stake.withdraw();
+
+      expect(withdrawSpy.mock.calls[0][0]).toMatchObject({
+        user: ataAddr,
+        vault: vaultPda,
+        stake: stakePda,
+      });
+    });
+
+    it('topup converts the amount to base units', async () => {
+      mockStake();
+      const topupSpy = vi.spyOn(stakingClient, 'getTopupInstruction');
+
+      await stake.topup({ amount: 250 });
+
+      expect(topupSpy.mock.calls[0][0].amount).toBe(250_000_000n);
+    });
+
+    it('extend rejects a total duration over 365 days', async () => {
+      mockStake({ duration: BigInt(300 * 86_400) });
+
+      await expect(stake.extend({ duration: { days: 66 } })).rejects.toThrow(
+        'expected between 14 and 365 days'
+      );
+    });
+
+    it('extend passes the added duration', async () => {
+      mockStake({ duration: BigInt(300 * 86_400) });
+      const extendSpy = vi.spyOn(stakingClient, 'getExtendInstruction');
+
+      await stake.extend({ duration: { days: 65 } });
+
+      expect(extendSpy.mock.calls[0][0].duration).toBe(BigInt(65 * 86_400));
+    });
+
+    it('close rejects a stake that is still locked', async () => {
+      mockStake({ timeUnstake: BigInt(now()), duration: BigInt(14 * 86_400) });
+
+      await expect(stake.close()).rejects.toThrow('it is locked until');
+    });
+
+    it('close builds the instruction once the stake is unlocked', async () => {
+      mockStake({ timeUnstake: BigInt(now() - 15 * 86_400), duration: BigInt(14 * 86_400) });
+      const closeSpy = vi.spyOn(stakingClient, 'getCloseInstruction');
+
+      await stake.close();
+
+      expect(closeSpy).toHaveBeenCalled();
+    });
+
+    describe('settings', () => {
+      const mockSettings = (authority: Address) =>
+        vi.spyOn(stakingClient, 'fetchSettingsAccount' as any).mockResolvedValue({
+          address: settingsPda,
+          data: {
+            discriminator: new Uint8Array(8),
+            authority,
+            tokenAccount: slashTokenAccount,
+          },
+        });
+
+      it('fetches the settings account', async () => {
+        mockSettings(walletAddr);
+
+        const settings = await stake.settings();
+
+        expect(settings).toEqual({
+          address: settingsPda,
+          authority: walletAddr,
+          tokenAccount: slashTokenAccount,
+        });
+        expect(stakingClient.fetchSettingsAccount).toHaveBeenCalledWith(
+          sdk.solana.rpc,
+          settingsPda
+        );
+      });
+
+      it('slash sends the amount to the settings token account', async () => {
+        mockSettings(walletAddr);
+        mockStake({ amount: 1_000_000_000n, vault: vaultPda });
+        const slashSpy = vi.spyOn(stakingClient, 'getSlashInstruction');
+
+        await stake.slash({ stake: stakePda, amount: 100 });
+
+        expect(slashSpy.mock.calls[0][0]).toMatchObject({
+          vault: vaultPda,
+          stake: stakePda,
+          tokenAccount: slashTokenAccount,
+          settings: settingsPda,
+          amount: 100_000_000n,
+        });
+      });
+
+      it('slash rejects more than the staked amount', async () => {
+        mockSettings(walletAddr);
+        mockStake({ amount: 1_000_000n });
+
+        await expect(stake.slash({ stake: stakePda, amount: 2 })).rejects.toThrow(
+          'it only holds 1 NOS'
+        );
+      });
+
+      it('admin helpers reject a wallet that is not the settings authority', async () => {
+        mockSettings(newAddr(607));
+        mockStake();
+
+        await expect(stake.slash({ stake: stakePda, amount: 1 })).rejects.toMatchObject({
+          code: ErrorCodes.VALIDATION_ERROR,
+        });
+        await expect(stake.updateSettings({ newAuthority: walletAddr })).rejects.toThrow(
+          'is not the staking settings authority'
+        );
+      });
+
+      it('updateSettings keeps the current values of omitted params', async () => {
+        mockSettings(walletAddr);
+        const newAuthority = newAddr(608);
+        const updateSpy = vi.spyOn(stakingClient, 'getUpdateSettingsInstruction');
+
+        await stake.updateSettings({ newAuthority });
+
+        expect(updateSpy.mock.calls[0][0]).toMatchObject({
+          newAuthority,
+          tokenAccount: slashTokenAccount,
+          settings: settingsPda,
+        });
+      });
+    });
+  });
+
+  describe('stats', () => {
+    let sdk: ReturnType<typeof MockClientFactory.createMockWithRpc>['sdk'];
+    let stake: StakeProgram;
+    const DAY = 86_400;
+    const stakes = [
+      StakeAccountFactory.create({
+        amount: 1_000_000_000n,
+        duration: BigInt(365 * DAY),
+        xnos: 4_000_000_000n,
+      }),
+      StakeAccountFactory.create({ amount: 3_000_000_000n, duration: BigInt(14 * DAY) }),
+      StakeAccountFactory.create({
+        amount: 2_000_000_000n,
+        duration: BigInt(60 * DAY),
+        timeUnstake: 1_700_000_000n,
+        xnos: 0n,
+      }),
+    ];
+    stakes[1].data.xnos = 3_345_205_479n;
+
+    const mockAccounts = (encode: (account: (typeof stakes)[0]) => Uint8Array) => {
+      sdk.solana.rpc.getProgramAccounts = vi.fn(() => ({
+        send: vi.fn().mockResolvedValue(
+          stakes.map((account) => ({
+            pubkey: account.address,
+            account: { data: [Buffer.from(encode(account)).toString('base64'), 'base64'] },
+          }))
+        ),
+      })) as any;
+    };
+
+    beforeEach(() => {
+      const ctx = MockClientFactory.createMockWithRpc();
+      sdk = ctx.sdk;
+      stake = createStakeProgram(sdkToProgramDeps(sdk), sdk.config.programs);
+    });
+
+    it('aggregates totals, counts, the duration histogram and top stakers', async () => {
+      mockAccounts((account) => stakingClient.getStakeAccountEncoder().encode(account.data));
+
+      const result = await stake.stats({ topN: 2, durationBuckets: [0, 30, 365] });
+
+      expect(result).toMatchObject({
+        totalStaked: 6000,
+        totalXnos: 7345.205479,
+        activeCount: 2,
+        unstakingCount: 1,
+        durationHistogram: [
+          { minDays: 0, maxDays: 30, count: 1, amount: 3000 },
+          { minDays: 30, maxDays: 365, count: 1, amount: 2000 },
+          { minDays: 365, maxDays: null, count: 1, amount: 1000 },
+        ],
+      });
+      expect(result.topStakers.map(({ address }) => address)).toEqual([
+        stakes[1].address,
+        stakes[2].address,
+      ]);
+    });
+
+    it('recomputes xNOS from a data slice of the accounts', async () => {
+      mockAccounts((account) =>
+        stakingClient.getStakeAccountEncoder().encode(account.data).slice(8, 64)
+      );
+
+      const result = await stake.stats({ dataSlice: true });
+
+      const [, config] = (sdk.solana.rpc.getProgramAccounts as any).mock.calls[0];
+      expect(config.dataSlice).toEqual({ offset: 8, length: 56 });
+      expect(result.totalStaked).toBe(6000);
+      expect(result.totalXnos).toBe(7345.205479);
+      expect(result.topStakers[0]).toMatchObject({ amount: 3000, xnos: 3345.205479 });
+    });
+
+    it('rejects an invalid topN', async () => {
+      await expect(stake.stats({ topN: -1 })).rejects.toMatchObject({
+        code: ErrorCodes.VALIDATION_ERROR,
+      });
+    });
+  });
+
+  describe('monitor', () => {
+    let sdk: ReturnType<typeof MockClientFactory.createMockWithRpc>['sdk'];
+    let stake: StakeProgram;
+    let programChannels: ReturnType<typeof createChannel>[];
+    let snapshots: { slot: bigint; accounts: [Address, Parameters<typeof encodeStake>[0]][] }[];
+    const authority = newAddr(700);
+    const stakeA = newAddr(701);
+    const stakeB = newAddr(702);
+    const reconnect = { initialDelayMs: 1, jitter: 0 };
+
+    const createChannel = () => {
+      const queue: IteratorResult<any>[] = [];
+      let resolveNext: ((result: IteratorResult<any>) => void) | undefined;
+      const send = (result: IteratorResult<any>) => {
+        if (resolveNext) {
+          resolveNext(result);
+          resolveNext = undefined;
+        } else {
+          queue.push(result);
+        }
+      };
+      return {
+        iterable: {
+          [Symbol.asyncIterator]: () => ({
+            next: () =>
+              queue.length > 0
+                ? Promise.resolve(queue.shift()!)
+                : new Promise<IteratorResult<any>>((resolve) => (resolveNext = resolve)),
+          }),
+        },
+        push: (value: any) => send({ done: false, value }),
+        end: () => send({ done: true, value: undefined }),
+      };
+    };
+
+    const encodeStake = (overrides: { amount?: bigint; duration?: bigint; timeUnstake?: bigint }) =>
+      stakingClient.getStakeAccountEncoder().encode({
+        amount: 1_000_000n,
+        authority,
+        duration: BigInt(30 * 86_400),
+        timeUnstake: 0n,
+        vault: newAddr(703),
+        vaultBump: 255,
+        xnos: 1_000_000n,
+        ...overrides,
+      });
+    const accountInfo = (overrides: Parameters<typeof encodeStake>[0], lamports = 1_000_000n) => ({
+      data: [Buffer.from(encodeStake(overrides)).toString('base64'), 'base64'],
+      executable: false,
+      lamports,
+      owner: sdk.config.programs.stakeAddress,
+      space: 121n,
+    });
+    const notification = (
+      slot: bigint,
+      pubkey: Address,
+      overrides: Parameters<typeof encodeStake>[0]
+    ) => ({ context: { slot }, value: { pubkey, account: accountInfo(overrides) } });
+
+    const take = async (iterator: AsyncIterator<StakeEvent>, count: number) => {
+      const events: StakeEvent[] = [];
+      while (events.length < count) {
+        events.push((await iterator.next()).value);
+      }
+      return events;
+    };
+
+    beforeEach(() => {
+      const ctx = MockClientFactory.createMockWithRpc();
+      sdk = ctx.sdk;
+      programChannels = [];
+      snapshots = [];
+      (sdk as any).solana.rpcSubscriptions = {
+        programNotifications: vi.fn(() => {
+          const channel = createChannel();
+          programChannels.push(channel);
+          return { subscribe: vi.fn().mockResolvedValue(channel.iterable) };
+        }),
+      };
+      // Accounts of the last served snapshot, returned by getMultipleAccounts
+      let current = new Map<Address, Parameters<typeof encodeStake>[0]>();
+      sdk.solana.rpc.getProgramAccounts = vi.fn((_program: Address, config: any) => ({
+        send: vi.fn(async () => {
+          const { slot, accounts } = snapshots.shift() ?? { slot: 1n, accounts: [] };
+          current = new Map(accounts);
+          return {
+            context: { slot },
+            value: accounts.map(([pubkey, overrides]) => {
+              const account = accountInfo(overrides);
+              if (config.dataSlice) {
+                const { offset, length } = config.dataSlice;
+                const data = Buffer.from(encodeStake(overrides)).subarray(offset, offset + length);
+                account.data = [data.toString('base64'), 'base64'];
+              }
+              return { pubkey, account };
+            }),
+          };
+        }),
+      })) as any;
+      sdk.solana.rpc.getMultipleAccounts = vi.fn((addresses: Address[]) => ({
+        send: vi.fn(async () => ({
+          context: { slot: 30n },
+          value: addresses.map((address) =>
+            current.has(address) ? accountInfo(current.get(address)!) : null
+          ),
+        })),
+      })) as any;
+      stake = createStakeProgram(sdkToProgramDeps(sdk), sdk.config.programs);
+    });
+
+    it('emits typed events from before and after snapshots', async () => {
+      snapshots.push({ slot: 10n, accounts: [[stakeA, {}]] });
+      const [events, stop] = await stake.monitor({ authority });
+      const iterator = events[Symbol.asyncIterator]();
+      const next = iterator.next();
+
+      await vi.waitFor(() => expect(programChannels).toHaveLength(1));
+      const [, subscription] = (sdk.solana.rpcSubscriptions.programNotifications as any).mock
+        .calls[0];
+      expect(subscription.filters[1].memcmp).toMatchObject({ offset: 16n, bytes: authority });
+
+      // Notifications older than the snapshot are skipped
+      programChannels[0].push(notification(9n, stakeA, { amount: 1n }));
+      programChannels[0].push(notification(11n, stakeB, {}));
+      programChannels[0].push(
+        notification(12n, stakeA, { amount: 3_000_000n, duration: BigInt(60 * 86_400) })
+      );
+      programChannels[0].push(notification(13n, stakeA, { amount: 2_000_000n }));
+
+      const created = (await next).value;
+      expect(created).toMatchObject({ type: StakeEventType.CREATED, stake: stakeB, before: null });
+      const changes = await take(iterator, 3);
+      expect(changes.map(({ type }) => type)).toEqual([
+        StakeEventType.TOPPED_UP,
+        StakeEventType.EXTENDED,
+        StakeEventType.SLASHED,
+      ]);
+      expect(changes[0].before?.amount).toBe(1_000_000);
+      expect(changes[0].after?.amount).toBe(3_000_000);
+
+      stop();
+      expect((await iterator.next()).done).toBe(true);
+    });
+
+    it('checks unstaked stakes for closes in batches', async () => {
+      (sdk as any).solana.config = { monitor: { pollIntervalMs: 1 } };
+      snapshots.push({ slot: 10n, accounts: [[stakeA, {}]] });
+      sdk.solana.rpc.getMultipleAccounts = vi.fn(() => ({
+        send: vi.fn().mockResolvedValue({ context: { slot: 12n }, value: [null] }),
+      })) as any;
+      const [events, stop] = await stake.monitor();
+      const iterator = events[Symbol.asyncIterator]();
+      const next = iterator.next();
+
+      await vi.waitFor(() => expect(programChannels).toHaveLength(1));
+      expect(sdk.solana.rpc.getMultipleAccounts).not.toHaveBeenCalled();
+      programChannels[0].push(notification(11n, stakeA, { timeUnstake: 1_700_000_000n }));
+      expect((await next).value).toMatchObject({ type: StakeEventType.UNSTAKED, stake: stakeA });
+
+      expect((await iterator.next()).value).toMatchObject({
+        type: StakeEventType.CLOSED,
+        stake: stakeA,
+        after: null,
+      });
+      expect(sdk.solana.rpc.getMultipleAccounts).toHaveBeenCalledWith([stakeA], {
+        encoding: 'base64',
+      });
+
+      stop();
+    });
+
+    it('backfills changes missed while reconnecting', async () => {
+      snapshots.push(
+        { slot: 10n, accounts: [[stakeA, {}]] },
+        { slot: 20n, accounts: [[stakeB, { duration: BigInt(60 * 86_400) }]] }
+      );
+      const onConnectionStateChange = vi.fn();
+      const [events, stop] = await stake.monitor(undefined, {
+        reconnect,
+        onConnectionStateChange,
+      });
+      const iterator = events[Symbol.asyncIterator]();
+      const next = iterator.next();
+
+      await vi.waitFor(() => expect(programChannels).toHaveLength(1));
+      programChannels[0].end();
+
+      const backfilled = [(await next).value, ...(await take(iterator, 1))];
+      expect(backfilled).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: StakeEventType.CLOSED, stake: stakeA }),
+          expect.objectContaining({ type: StakeEventType.CREATED, stake: stakeB }),
+        ])
+      );
+      expect(onConnectionStateChange).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'reconnecting', attempt: 1 })
+      );
+      // The backfill only lists the changing fields, and fetches the new stake in full
+      expect((sdk.solana.rpc.getProgramAccounts as any).mock.calls[1][1].dataSlice).toEqual({
+        offset: 8,
+        length: 56,
+      });
+      expect(sdk.solana.rpc.getMultipleAccounts).toHaveBeenCalledWith([stakeB], {
+        encoding: 'base64',
+      });
+
+      stop();
+    });
+
+    it('only fetches the changed stakes in full when polling', async () => {
+      (sdk as any).solana.config = { monitor: { transport: 'polling', pollIntervalMs: 1 } };
+      snapshots.push(
+        {
+          slot: 10n,
+          accounts: [
+            [stakeA, {}],
+            [stakeB, {}],
+          ],
+        },
+        {
+          slot: 20n,
+          accounts: [
+            [stakeA, {}],
+            [stakeB, { amount: 2_000_000n }],
+          ],
+        }
+      );
+      const [events, stop] = await stake.monitor();
+      const iterator = events[Symbol.asyncIterator]();
+
+      expect((await iterator.next()).value).toMatchObject({
+        type: StakeEventType.TOPPED_UP,
+        stake: stakeB,
+      });
+      expect(sdk.solana.rpc.getMultipleAccounts).toHaveBeenCalledTimes(1);
+      expect(sdk.solana.rpc.getMultipleAccounts).toHaveBeenCalledWith([stakeB], {
+        encoding: 'base64',
+      });
+
+      stop();
+    });
+
+    it('only fetches the stakes again on reconnect when backfilling', async () => {
+      snapshots.push({ slot: 10n, accounts: [[stakeA, {}]] });
+      const onConnectionStateChange = vi.fn();
+      const [events, stop] = await stake.monitor(undefined, {
+        reconnect,
+        backfill: false,
+        onConnectionStateChange,
+      });
+      const iterator = events[Symbol.asyncIterator]();
+      const next = iterator.next();
+
+      await vi.waitFor(() => expect(programChannels).toHaveLength(1));
+      programChannels[0].end();
+      await vi.waitFor(() => expect(programChannels).toHaveLength(2));
+      programChannels[1].push(notification(20n, stakeA, { amount: 2_000_000n }));
+
+      expect((await next).value).toMatchObject({ type: StakeEventType.TOPPED_UP, stake: stakeA });
+      expect(sdk.solana.rpc.getProgramAccounts).toHaveBeenCalledTimes(1);
+
+      stop();
+    });
+
+    it('rejects an invalid reconnect jitter', async () => {
+      await expect(stake.monitor(undefined, { reconnect: { jitter: 2 } })).rejects.toMatchObject({
+        code: ErrorCodes.VALIDATION_ERROR,
+      });
+    });
+  });
+
   describe('integration scenarios', () => {
     let sdk: ReturnType<typeof MockClientFactory.createMockWithRpc>['sdk'];
     let stake: StakeProgram;
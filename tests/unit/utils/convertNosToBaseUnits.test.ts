@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertNosToBaseUnits,
+  convertBaseUnitsToNos,
+  NOS_DECIMALS,
+} from '../../../src/utils/convertNosToBaseUnits.js';
+import { NosanaError, ErrorCodes } from '../../../src/errors/NosanaError.js';
+
+describe('convertNosToBaseUnits', () => {
+  it('converts whole NOS amounts to base units', () => {
+    expect(convertNosToBaseUnits(1)).toBe(BigInt(10 ** NOS_DECIMALS));
+    expect(convertNosToBaseUnits(0)).toBe(BigInt(0));
+  });
+
+  it('converts fractional NOS amounts and rounds to the nearest base unit', () => {
+    expect(convertNosToBaseUnits(1.5)).toBe(BigInt(1_500_000));
+    expect(convertNosToBaseUnits(0.0000004)).toBe(BigInt(0));
+    expect(convertNosToBaseUnits(0.0000006)).toBe(BigInt(1));
+  });
+
+  it.each([-1, Number.NaN, Number.POSITIVE_INFINITY])('throws for invalid amount %s', (amount) => {
+    expect(() => convertNosToBaseUnits(amount)).toThrow(NosanaError);
+    try {
+      convertNosToBaseUnits(amount);
+    } catch (error) {
+      expect((error as NosanaError).code).toBe(ErrorCodes.VALIDATION_ERROR);
+    }
+  });
+});
+
+describe('convertBaseUnitsToNos', () => {
+  it('converts number and bigint base units to NOS', () => {
+    expect(convertBaseUnitsToNos(1_500_000)).toBe(1.5);
+    expect(convertBaseUnitsToNos(BigInt(2_000_000))).toBe(2);
+  });
+
+  it('round-trips with convertNosToBaseUnits', () => {
+    expect(convertBaseUnitsToNos(convertNosToBaseUnits(12.345678))).toBe(12.345678);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getAccountFieldOffsets } from '../../../src/utils/getAccountFieldOffsets.js';
+import {
+  getJobAccountDecoder,
+  getRunAccountDecoder,
+} from '../../../src/generated_clients/jobs/index.js';
+
+describe('getAccountFieldOffsets', () => {
+  it('derives the offsets of every job account field', () => {
+    expect(getAccountFieldOffsets(getJobAccountDecoder())).toEqual({
+      discriminator: 0,
+      ipfsJob: 8,
+      ipfsResult: 40,
+      market: 72,
+      node: 104,
+      payer: 136,
+      price: 168,
+      project: 176,
+      state: 208,
+      timeEnd: 209,
+      timeStart: 217,
+      timeout: 225,
+    });
+  });
+
+  it('derives the offsets of every run account field', () => {
+    expect(getAccountFieldOffsets(getRunAccountDecoder())).toEqual({
+      discriminator: 0,
+      job: 8,
+      node: 40,
+      payer: 72,
+      state: 104,
+      time: 105,
+    });
+  });
+});
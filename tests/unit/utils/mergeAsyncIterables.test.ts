@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mergeAsyncIterables } from '../../../src/utils/mergeAsyncIterables.js';
+
+async function* delayed<T>(values: [T, number][]) {
+  for (const [value, delayMs] of values) {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    yield value;
+  }
+}
+
+describe('mergeAsyncIterables', () => {
+  it('yields the values of every iterable in the order they arrive', async () => {
+    const values: string[] = [];
+    for await (const value of mergeAsyncIterables([
+      delayed([
+        ['a1', 0],
+        ['a2', 20],
+      ]),
+      delayed([['b1', 10]]),
+    ])) {
+      values.push(value);
+    }
+
+    expect(values).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('closes the other iterables when the merged stream is closed', async () => {
+    const returnSpy = vi.fn().mockResolvedValue({ done: true, value: undefined });
+    const pending = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => new Promise<never>(() => {}),
+        return: returnSpy,
+      }),
+    };
+
+    for await (const value of mergeAsyncIterables<string>([delayed([['a1', 0]]), pending])) {
+      expect(value).toBe('a1');
+      break;
+    }
+
+    expect(returnSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MonitorTransport } from '../../../src/config/types.js';
+import { ErrorCodes } from '../../../src/errors/NosanaError.js';
+import type { Logger } from '../../../src/logger/Logger.js';
+import {
+  DEFAULT_RECONNECT_OPTIONS,
+  DEFAULT_TRANSPORT_CONFIG,
+  getReconnectDelay,
+  getReconnectOptions,
+  runMonitorConnection,
+  sleep,
+} from '../../../src/utils/monitorReconnect.js';
+
+describe('getReconnectDelay', () => {
+  const options = { ...DEFAULT_RECONNECT_OPTIONS, jitter: 0 };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay on every attempt', () => {
+    expect([1, 2, 3].map((attempt) => getReconnectDelay(attempt, options))).toEqual([
+      1000, 2000, 4000,
+    ]);
+  });
+
+  it('caps the delay at the maximum', () => {
+    expect(getReconnectDelay(10, options)).toBe(options.maxDelayMs);
+  });
+
+  it('randomizes up to the jitter fraction of the delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getReconnectDelay(1, { ...options, jitter: 0.2 })).toBe(800);
+  });
+});
+
+describe('sleep', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves after the delay and removes its abort listener', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+    const promise = sleep(1000, controller.signal);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(promise).resolves.toBeUndefined();
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('resolves early when the signal is aborted', async () => {
+    const controller = new AbortController();
+
+    const promise = sleep(60_000, controller.signal);
+    controller.abort();
+
+    await expect(promise).resolves.toBeUndefined();
+  });
+});
+
+describe('getReconnectOptions', () => {
+  it('applies the defaults', () => {
+    expect(getReconnectOptions({ initialDelayMs: 5 })).toEqual({
+      ...DEFAULT_RECONNECT_OPTIONS,
+      initialDelayMs: 5,
+    });
+  });
+
+  it('rejects a jitter outside of 0 and 1', () => {
+    expect(() => getReconnectOptions({ jitter: 2 })).toThrow(
+      expect.objectContaining({ code: ErrorCodes.VALIDATION_ERROR })
+    );
+  });
+});
+
+describe('runMonitorConnection', () => {
+  const reconnect = { ...DEFAULT_RECONNECT_OPTIONS, initialDelayMs: 1, jitter: 0 };
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } as unknown as Logger;
+
+  const collect = async (iterable: AsyncIterable<string>) => {
+    const values: string[] = [];
+    for await (const value of iterable) values.push(value);
+    return values;
+  };
+
+  it('reconnects after a failure and falls back to polling', async () => {
+    const onConnectionStateChange = vi.fn();
+    // Connects once, then fails to reconnect
+    const connect = vi.fn(async function* ({ hasConnected, onConnected }: any) {
+      if (hasConnected) throw new Error('connection refused');
+      onConnected();
+      yield 'event';
+      throw new Error('connection lost');
+    });
+    const poll = vi.fn(async function* (hasConnected: boolean) {
+      yield `polled after connecting: ${hasConnected}`;
+    });
+
+    const values = await collect(
+      runMonitorConnection(
+        { name: 'test', connect, poll },
+        {
+          reconnect,
+          transport: { ...DEFAULT_TRANSPORT_CONFIG, fallbackAfterFailures: 2 },
+          signal: new AbortController().signal,
+          logger,
+          onConnectionStateChange,
+        }
+      )
+    );
+
+    expect(values).toEqual(['event', 'polled after connecting: true']);
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(onConnectionStateChange.mock.calls.map(([event]) => event.state)).toEqual([
+      'connected',
+      'disconnected',
+      'reconnecting',
+      'disconnected',
+      'connected',
+    ]);
+    expect(onConnectionStateChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ transport: MonitorTransport.POLLING })
+    );
+  });
+
+  it('throws once the reconnect attempts are exhausted', async () => {
+    const connect = vi.fn(async function* () {
+      yield* [];
+      throw new Error('unreachable');
+    });
+
+    await expect(
+      collect(
+        runMonitorConnection(
+          { name: 'test', connect, poll: vi.fn() },
+          {
+            reconnect: { ...reconnect, maxAttempts: 1 },
+            transport: { ...DEFAULT_TRANSPORT_CONFIG, transport: MonitorTransport.WEBSOCKET },
+            signal: new AbortController().signal,
+            logger,
+          }
+        )
+      )
+    ).rejects.toMatchObject({ code: ErrorCodes.RPC_ERROR });
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+});